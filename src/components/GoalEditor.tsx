@@ -0,0 +1,31 @@
+"use client";
+
+import type { GoalConfig } from "@/lib/workflowTypes";
+import { describeConditionGroup } from "@/lib/conditions";
+import { ConditionGroupEditor } from "@/components/IfElseEditor";
+
+type GoalEditorProps = {
+  config: GoalConfig;
+  onChange: (config: GoalConfig) => void;
+};
+
+export const GoalEditor = ({ config, onChange }: GoalEditorProps) => {
+  const condition = config.condition ?? { anyAll: "all", rules: [] };
+
+  return (
+    <div className="ifelse-editor">
+      <div className="field-helper">
+        Checked every time the contact changes. Once it is true, waiting steps in this
+        workflow are skipped and the contact continues from this step.
+      </div>
+      <ConditionGroupEditor
+        group={condition}
+        depth={0}
+        onChange={(updated) => onChange({ ...config, condition: updated })}
+      />
+      <div className="field-helper">
+        Goal is met when: {describeConditionGroup(condition) || "No rules yet"}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,31 @@
 "use client";
 
 import { nanoid } from "nanoid";
-import type { ConditionRule, IfElseBranch, IfElseConfig } from "@/lib/workflowTypes";
+import type {
+  ConditionGroup,
+  ConditionRule,
+  IfElseBranch,
+  IfElseConfig
+} from "@/lib/workflowTypes";
+import {
+  APPOINTMENT_STATUSES,
+  CONDITION_OPERATORS,
+  MAX_CONDITION_DEPTH,
+  createRule,
+  describeConditionGroup,
+  getConditionOperator
+} from "@/lib/conditions";
 
 type IfElseEditorProps = {
   config: IfElseConfig;
   onChange: (config: IfElseConfig) => void;
 };
 
-const createRule = (type: ConditionRule["type"]): ConditionRule => {
-  switch (type) {
-    case "tagExists":
-      return { type, tag: "" };
-    case "fieldExists":
-      return { type, fieldKey: "" };
-    case "fieldEquals":
-      return { type, fieldKey: "", value: "" };
-  }
+type ConditionGroupEditorProps = {
+  group: ConditionGroup;
+  depth: number;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void;
 };
 
 const createBranch = (label: string): IfElseBranch => ({
@@ -25,6 +34,211 @@ const createBranch = (label: string): IfElseBranch => ({
   condition: { anyAll: "all", rules: [] }
 });
 
+export const ConditionGroupEditor = ({ group, depth, onChange, onRemove }: ConditionGroupEditorProps) => {
+  const groups = group.groups ?? [];
+
+  const updateRule = (ruleIndex: number, updater: (rule: ConditionRule) => ConditionRule) => {
+    onChange({
+      ...group,
+      rules: group.rules.map((rule, index) => (index === ruleIndex ? updater(rule) : rule))
+    });
+  };
+
+  const updateGroup = (groupIndex: number, updated: ConditionGroup) => {
+    onChange({
+      ...group,
+      groups: groups.map((item, index) => (index === groupIndex ? updated : item))
+    });
+  };
+
+  return (
+    <div className={depth > 0 ? "condition-group condition-group--nested" : "condition-group"}>
+      <div className="ifelse-row">
+        <label className="field-label">{depth > 0 ? "Group matches" : "Rules match"}</label>
+        <select
+          className="select-input"
+          value={group.anyAll}
+          onChange={(event) =>
+            onChange({ ...group, anyAll: event.target.value as "all" | "any" })
+          }
+        >
+          <option value="all">All rules (AND)</option>
+          <option value="any">Any rule (OR)</option>
+        </select>
+        {onRemove && (
+          <button className="btn btn-secondary" onClick={onRemove}>
+            Remove group
+          </button>
+        )}
+      </div>
+
+      <div className="rules">
+        {group.rules.map((rule, ruleIndex) => (
+          <div key={ruleIndex} className="rule-row">
+            <select
+              className="select-input"
+              value={rule.type}
+              onChange={(event) =>
+                updateRule(ruleIndex, () =>
+                  createRule(event.target.value as ConditionRule["type"])
+                )
+              }
+            >
+              {CONDITION_OPERATORS.map((operator) => (
+                <option key={operator.type} value={operator.type}>
+                  {operator.label}
+                </option>
+              ))}
+            </select>
+
+            {"tag" in rule && (
+              <input
+                className="text-input"
+                value={rule.tag}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    tag: event.target.value
+                  }) as ConditionRule)
+                }
+                placeholder="status:responded"
+              />
+            )}
+
+            {"fieldKey" in rule && (
+              <input
+                className="text-input"
+                value={rule.fieldKey}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    fieldKey: event.target.value
+                  }) as ConditionRule)
+                }
+                placeholder={
+                  getConditionOperator(rule.type)?.input === "days"
+                    ? "last_contacted"
+                    : "lead_source"
+                }
+              />
+            )}
+
+            {getConditionOperator(rule.type)?.input === "text" && "value" in rule && (
+              <input
+                className="text-input"
+                value={String(rule.value ?? "")}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    value: event.target.value
+                  }) as ConditionRule)
+                }
+                placeholder="Facebook"
+              />
+            )}
+
+            {getConditionOperator(rule.type)?.input === "number" && "value" in rule && (
+              <input
+                className="text-input"
+                type="number"
+                value={Number(rule.value ?? 0)}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    value: Number(event.target.value)
+                  }) as ConditionRule)
+                }
+                placeholder="10"
+              />
+            )}
+
+            {"status" in rule && (
+              <select
+                className="select-input"
+                value={rule.status}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    status: event.target.value
+                  }) as ConditionRule)
+                }
+              >
+                {APPOINTMENT_STATUSES.map((status) => (
+                  <option key={status.value} value={status.value}>
+                    {status.label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {"daysAgo" in rule && (
+              <input
+                className="text-input"
+                type="number"
+                min={0}
+                value={rule.daysAgo}
+                onChange={(event) =>
+                  updateRule(ruleIndex, (current) => ({
+                    ...current,
+                    daysAgo: Number(event.target.value)
+                  }) as ConditionRule)
+                }
+                placeholder="30"
+              />
+            )}
+
+            <button
+              className="btn btn-secondary"
+              onClick={() =>
+                onChange({
+                  ...group,
+                  rules: group.rules.filter((_, index) => index !== ruleIndex)
+                })
+              }
+            >
+              Remove rule
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {groups.map((nested, groupIndex) => (
+        <ConditionGroupEditor
+          key={groupIndex}
+          group={nested}
+          depth={depth + 1}
+          onChange={(updated) => updateGroup(groupIndex, updated)}
+          onRemove={() =>
+            onChange({ ...group, groups: groups.filter((_, index) => index !== groupIndex) })
+          }
+        />
+      ))}
+
+      <div className="ifelse-row">
+        <button
+          className="btn btn-secondary"
+          onClick={() => onChange({ ...group, rules: [...group.rules, createRule("tagExists")] })}
+        >
+          Add rule
+        </button>
+        {depth < MAX_CONDITION_DEPTH && (
+          <button
+            className="btn btn-secondary"
+            onClick={() =>
+              onChange({
+                ...group,
+                groups: [...groups, { anyAll: group.anyAll === "all" ? "any" : "all", rules: [] }]
+              })
+            }
+          >
+            Add group
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
 export const IfElseEditor = ({ config, onChange }: IfElseEditorProps) => {
   const normalizedConfig: IfElseConfig = {
     branches: config.branches?.length ? config.branches : [createBranch("Branch 1")],
@@ -38,19 +252,6 @@ export const IfElseEditor = ({ config, onChange }: IfElseEditorProps) => {
     onChange({ ...normalizedConfig, branches: updated });
   };
 
-  const updateRule = (
-    branchIndex: number,
-    ruleIndex: number,
-    updater: (rule: ConditionRule) => ConditionRule
-  ) => {
-    updateBranch(branchIndex, (branch) => {
-      const updatedRules = branch.condition.rules.map((rule, index) =>
-        index === ruleIndex ? updater(rule) : rule
-      );
-      return { ...branch, condition: { ...branch.condition, rules: updatedRules } };
-    });
-  };
-
   return (
     <div className="ifelse-editor">
       <div className="ifelse-row">
@@ -93,130 +294,17 @@ export const IfElseEditor = ({ config, onChange }: IfElseEditorProps) => {
             </button>
           </div>
 
-          <div className="ifelse-row">
-            <label className="field-label">Rules match</label>
-            <select
-              className="select-input"
-              value={branch.condition.anyAll}
-              onChange={(event) =>
-                updateBranch(branchIndex, (current) => ({
-                  ...current,
-                  condition: {
-                    ...current.condition,
-                    anyAll: event.target.value as "all" | "any"
-                  }
-                }))
-              }
-            >
-              <option value="all">All rules</option>
-              <option value="any">Any rule</option>
-            </select>
-          </div>
+          <ConditionGroupEditor
+            group={branch.condition}
+            depth={0}
+            onChange={(condition) =>
+              updateBranch(branchIndex, (current) => ({ ...current, condition }))
+            }
+          />
 
-          <div className="rules">
-            {branch.condition.rules.map((rule, ruleIndex) => (
-              <div key={`${branch.id}-${ruleIndex}`} className="rule-row">
-                <select
-                  className="select-input"
-                  value={rule.type}
-                  onChange={(event) =>
-                    updateRule(branchIndex, ruleIndex, () =>
-                      createRule(event.target.value as ConditionRule["type"])
-                    )
-                  }
-                >
-                  <option value="tagExists">Tag exists</option>
-                  <option value="fieldExists">Field exists</option>
-                  <option value="fieldEquals">Field equals</option>
-                </select>
-
-                {rule.type === "tagExists" && (
-                  <input
-                    className="text-input"
-                    value={rule.tag}
-                    onChange={(event) =>
-                      updateRule(branchIndex, ruleIndex, (current) => ({
-                        ...current,
-                        tag: event.target.value
-                      }))
-                    }
-                    placeholder="status:responded"
-                  />
-                )}
-
-                {rule.type === "fieldExists" && (
-                  <input
-                    className="text-input"
-                    value={rule.fieldKey}
-                    onChange={(event) =>
-                      updateRule(branchIndex, ruleIndex, (current) => ({
-                        ...current,
-                        fieldKey: event.target.value
-                      }))
-                    }
-                    placeholder="phone"
-                  />
-                )}
-
-                {rule.type === "fieldEquals" && (
-                  <>
-                    <input
-                      className="text-input"
-                      value={rule.fieldKey}
-                      onChange={(event) =>
-                        updateRule(branchIndex, ruleIndex, (current) => ({
-                          ...current,
-                          fieldKey: event.target.value
-                        }))
-                      }
-                      placeholder="lead_source"
-                    />
-                    <input
-                      className="text-input"
-                      value={String(rule.value ?? "")}
-                      onChange={(event) =>
-                        updateRule(branchIndex, ruleIndex, (current) => ({
-                          ...current,
-                          value: event.target.value
-                        }))
-                      }
-                      placeholder="Facebook"
-                    />
-                  </>
-                )}
-
-                <button
-                  className="btn btn-secondary"
-                  onClick={() =>
-                    updateBranch(branchIndex, (current) => ({
-                      ...current,
-                      condition: {
-                        ...current.condition,
-                        rules: current.condition.rules.filter((_, index) => index !== ruleIndex)
-                      }
-                    }))
-                  }
-                >
-                  Remove rule
-                </button>
-              </div>
-            ))}
+          <div className="field-helper">
+            Reads as: {describeConditionGroup(branch.condition) || "No rules yet"}
           </div>
-
-          <button
-            className="btn btn-secondary"
-            onClick={() =>
-              updateBranch(branchIndex, (current) => ({
-                ...current,
-                condition: {
-                  ...current.condition,
-                  rules: [...current.condition.rules, createRule("tagExists")]
-                }
-              }))
-            }
-          >
-            Add rule
-          </button>
         </div>
       ))}
 
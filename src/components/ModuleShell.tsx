@@ -1,20 +1,25 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useProgress } from "@/contexts/ProgressContext";
 import { useCopilot } from "@/contexts/CopilotContext";
 import { GLOSSARY } from "@/data/glossary";
 import type { ScenarioDefinition } from "@/lib/scenarioTypes";
-import type { NodeType } from "@/lib/workflowTypes";
+import type { NodeType, WorkflowGraph } from "@/lib/workflowTypes";
 import type { ValidationIssueWithContext } from "@/lib/validation";
+import type { CoverageReport } from "@/lib/coverage";
+import { loadWorkflowGraph } from "@/lib/workflowStorage";
 import { MarkdownContent } from "@/components/MarkdownContent";
 import { WorkflowBuilder } from "@/components/WorkflowBuilder";
+import { WorkflowMapView } from "@/components/WorkflowMapView";
 import { ValidationPanel } from "@/components/ValidationPanel";
 import { SimulationPanel } from "@/components/SimulationPanel";
 import { GlossaryPanel } from "@/components/GlossaryPanel";
 import { MIN_TEACH_BACK_WORDS, TEACH_BACK_RUBRIC } from "@/lib/rubric";
 import { GHL_TERM_SUMMARY, getGhlTerm, getNodeDisplayName } from "@/lib/ghlTerms";
+import { getConditionOperator } from "@/lib/conditions";
+import { buildWorkflowMap } from "@/lib/workflowMap";
 
 type ModuleShellProps = {
   moduleId: string;
@@ -82,6 +87,12 @@ const formatRequirementSummary = (requirement: any) => {
       return `Includes ${requirement.nodeTypes.map(getNodeDisplayName).join(", ")}`;
     case "requireStopPath":
       return "Each path ends when there are no more steps";
+    case "conditionUsesOperator":
+      return `If/Else uses ${
+        getConditionOperator(requirement.operator)?.label ?? requirement.operator
+      }${requirement.fieldKey ? ` on ${requirement.fieldKey}` : ""}`;
+    case "enrollsWorkflow":
+      return `Adds the contact to workflow ${requirement.workflowId}`;
     default:
       return "Requirement";
   }
@@ -209,6 +220,15 @@ const buildExpectedFieldHints = (
     if (expect.tasksCreated?.length) {
       expect.tasksCreated.forEach((task) => {
         collectHint("task.create", "title", "Expected words", task.contains);
+        if (task.assignedTo) {
+          collectHint(
+            "task.create",
+            "assignedTo",
+            "Expected to land with",
+            [task.assignedTo],
+            "Pick them here, or use the owner or round robin so they get it."
+          );
+        }
       });
     }
     if (expect.systemTasksCreated?.length) {
@@ -219,6 +239,15 @@ const buildExpectedFieldHints = (
     if (expect.notifications?.length) {
       expect.notifications.forEach((notification) => {
         collectHint("user.notify", "message", "Expected words", notification.contains);
+        if (notification.recipient) {
+          collectHint(
+            "user.notify",
+            "recipient",
+            "Expected to land with",
+            [notification.recipient],
+            "Pick them here, or use the owner or round robin so they get it."
+          );
+        }
       });
     }
     if (expect.systemNotifications?.length) {
@@ -241,6 +270,17 @@ const buildExpectedFieldHints = (
   return hints;
 };
 
+const buildMergeFieldKeys = (scenario?: ScenarioDefinition | null): string[] => {
+  if (!scenario || "workflows" in scenario) {
+    return [];
+  }
+  const keys = new Set<string>();
+  scenario.testCases.forEach((testCase) => {
+    Object.keys(testCase.initialState.fields ?? {}).forEach((fieldKey) => keys.add(fieldKey));
+  });
+  return Array.from(keys).sort();
+};
+
 const buildMicroLessonCards = (
   scenario?: ScenarioDefinition | null
 ): MicroLessonCard[] => {
@@ -314,6 +354,7 @@ const MultiWorkflowBuilder = ({
   singleTriggerMode,
   onReadyForCheckChange,
   validationIssues,
+  coverage,
   onFixNode
 }: {
   moduleId: string;
@@ -323,6 +364,7 @@ const MultiWorkflowBuilder = ({
   singleTriggerMode?: boolean;
   onReadyForCheckChange?: (ready: boolean) => void;
   validationIssues?: ValidationIssueWithContext[];
+  coverage?: CoverageReport[];
   onFixNode?: (nodeId?: string, fieldKey?: string) => void;
 }) => {
   if (!scenario || !("workflows" in scenario)) {
@@ -341,6 +383,56 @@ const MultiWorkflowBuilder = ({
     () => buildExpectedFieldHints(activeWorkflow?.scenario ?? null),
     [activeWorkflow]
   );
+  const mergeFieldKeys = useMemo(
+    () => buildMergeFieldKeys(activeWorkflow?.scenario ?? null),
+    [activeWorkflow]
+  );
+  const workflowOptions = scenario.workflows
+    .filter((workflow) => workflow.workflowId !== activeWorkflowId)
+    .map((workflow) => ({ value: workflow.workflowId, label: workflow.scenario.title }));
+  // Every graph starts from storage; the builder then reports edits to the open one.
+  const [graphs, setGraphs] = useState<Record<string, WorkflowGraph>>(() =>
+    Object.fromEntries(
+      scenario.workflows.map((workflow) => [
+        workflow.workflowId,
+        loadWorkflowGraph(moduleId, workflow.workflowId) ?? { nodes: [], edges: [] }
+      ])
+    )
+  );
+  const handleGraphChange = useCallback(
+    (graph: WorkflowGraph) =>
+      setGraphs((current) => ({ ...current, [activeWorkflowId]: graph })),
+    [activeWorkflowId]
+  );
+  const emailStepOptions = useMemo(
+    () =>
+      scenario.workflows
+        .filter((workflow) => workflow.workflowId !== activeWorkflowId)
+        .flatMap((workflow) =>
+          (graphs[workflow.workflowId]?.nodes ?? [])
+            .filter((node) => node.type === "email.send")
+            .map((node) => ({
+              value: node.id,
+              label: `${workflow.scenario.title}: ${
+                String(node.config?.subject || "") || "Email (no subject yet)"
+              }`
+            }))
+        ),
+    [activeWorkflowId, graphs, scenario.workflows]
+  );
+  const workflowMap = useMemo(
+    () =>
+      buildWorkflowMap(
+        scenario.workflows.map((workflow) => ({
+          workflowId: workflow.workflowId,
+          graph: graphs[workflow.workflowId] ?? { nodes: [], edges: [] }
+        }))
+      ),
+    [graphs, scenario.workflows]
+  );
+  const workflowTitles = Object.fromEntries(
+    scenario.workflows.map((workflow) => [workflow.workflowId, workflow.scenario.title])
+  );
   const allowedTypes = activeWorkflow
     ? [
         ...activeWorkflow.scenario.allowedNodes.triggers,
@@ -365,6 +457,12 @@ const MultiWorkflowBuilder = ({
           ))}
         </select>
       </label>
+      <WorkflowMapView
+        map={workflowMap}
+        titles={workflowTitles}
+        activeWorkflowId={activeWorkflowId}
+        onSelectWorkflow={setActiveWorkflowId}
+      />
       {activeWorkflow ? (
         <WorkflowBuilder
           moduleId={moduleId}
@@ -375,8 +473,13 @@ const MultiWorkflowBuilder = ({
           singleTriggerMode={singleTriggerMode}
           onReadyForCheckChange={onReadyForCheckChange}
           validationIssues={activeIssues}
+          coverage={coverage?.find((report) => report.workflowId === activeWorkflowId)}
+          workflowOptions={workflowOptions}
+          emailStepOptions={emailStepOptions}
           onFixNode={onFixNode}
           expectedFieldHints={expectedFieldHints}
+          mergeFieldKeys={mergeFieldKeys}
+          onGraphChange={handleGraphChange}
         />
       ) : (
         <div className="muted">Select a workflow to begin.</div>
@@ -402,6 +505,7 @@ export const ModuleShell = ({
   const [validationPassed, setValidationPassed] = useState(false);
   const [simulationPassed, setSimulationPassed] = useState(false);
   const [validationIssues, setValidationIssues] = useState<ValidationIssueWithContext[]>([]);
+  const [coverage, setCoverage] = useState<CoverageReport[]>([]);
   const { progress, updateTeachBack, markCompleted } = useProgress();
   const { send, setContext } = useCopilot();
 
@@ -425,6 +529,7 @@ export const ModuleShell = ({
     () => buildExpectedFieldHints(scenario),
     [scenario]
   );
+  const mergeFieldKeys = useMemo(() => buildMergeFieldKeys(scenario), [scenario]);
   const singleTriggerMode = useMemo(() => {
     if (!scenario || "workflows" in scenario) {
       return false;
@@ -450,6 +555,7 @@ export const ModuleShell = ({
     setValidationPassed(false);
     setSimulationPassed(false);
     setValidationIssues([]);
+    setCoverage([]);
   }, [moduleId, scenario]);
 
   useEffect(() => {
@@ -601,6 +707,7 @@ export const ModuleShell = ({
                 singleTriggerMode={singleTriggerMode}
                 onReadyForCheckChange={setBuildReady}
                 validationIssues={validationIssues}
+                coverage={coverage}
                 onFixNode={handleFixNode}
               />
             ) : (
@@ -612,8 +719,10 @@ export const ModuleShell = ({
                 singleTriggerMode={singleTriggerMode}
                 onReadyForCheckChange={setBuildReady}
                 validationIssues={validationIssues}
+                coverage={coverage.find((report) => report.workflowId === "main")}
                 onFixNode={handleFixNode}
                 expectedFieldHints={expectedFieldHints}
+                mergeFieldKeys={mergeFieldKeys}
               />
             )}
             <div className="flow-actions">
@@ -652,6 +761,7 @@ export const ModuleShell = ({
               onFixNode={handleFixNode}
               onStatusChange={setValidationPassed}
               onIssuesChange={setValidationIssues}
+              onCoverageChange={setCoverage}
             />
             <div className="flow-actions">
               <button
@@ -3,16 +3,24 @@
 import { useEffect, useRef, useState } from "react";
 import type { ConfigField, ConfigFieldOption } from "@/lib/nodeCatalog";
 import type { WorkflowNode } from "@/lib/workflowTypes";
-import { getNodeDefinition } from "@/lib/nodeCatalog";
+import { getNodeDefinition, isFieldRequired } from "@/lib/nodeCatalog";
 import { getGhlTerm } from "@/lib/ghlTerms";
+import { toMergeFieldToken } from "@/lib/mergeFields";
 import { IfElseEditor } from "@/components/IfElseEditor";
+import { GoalEditor } from "@/components/GoalEditor";
+import { SplitEditor } from "@/components/SplitEditor";
 
 type NodeInspectorProps = {
   node: WorkflowNode | null;
   onChange: (nodeId: string, config: WorkflowNode["config"]) => void;
   focusFieldKey?: string | null;
   expectedFieldHints?: Record<string, { label: string; values: string[]; note?: string }>;
+  mergeFieldKeys?: string[];
+  workflowOptions?: ConfigFieldOption[];
+  emailStepOptions?: ConfigFieldOption[];
   onDelete?: (nodeId: string) => void;
+  hasBreakpoint?: boolean;
+  onToggleBreakpoint?: (nodeId: string) => void;
   onMove?: (direction: "up" | "down") => void;
   canMoveUp?: boolean;
   canMoveDown?: boolean;
@@ -34,7 +42,12 @@ export const NodeInspector = ({
   onChange,
   focusFieldKey,
   expectedFieldHints,
+  mergeFieldKeys = [],
+  workflowOptions = [],
+  emailStepOptions = [],
   onDelete,
+  hasBreakpoint = false,
+  onToggleBreakpoint,
   onMove,
   canMoveUp = false,
   canMoveDown = false,
@@ -90,7 +103,7 @@ export const NodeInspector = ({
 
   const renderField = (field: ConfigField, isFocused: boolean) => {
     const value = node.config[field.key] ?? "";
-    const missing = field.required && isFieldMissing(value);
+    const missing = isFieldRequired(field, node.config) && isFieldMissing(value);
     const fieldClass = missing
       ? "text-input input-error"
       : "text-input";
@@ -105,8 +118,15 @@ export const NodeInspector = ({
     const expected = expectedFieldHints?.[field.key];
 
     if (field.type === "select") {
-      const options = (field.options ?? []).map((option) =>
-        typeof option === "string" ? { value: option, label: option } : option
+      // Workflow pickers start empty so a missing choice is visible, not defaulted.
+      const options = (
+        field.optionsSource === "workflows"
+          ? [{ value: "", label: "Select a workflow..." }, ...workflowOptions]
+          : field.optionsSource === "emailSteps"
+            ? [{ value: "", label: "Any email" }, ...emailStepOptions]
+            : (field.options ?? []).map((option) =>
+              typeof option === "string" ? { value: option, label: option } : option
+            )
       ) as ConfigFieldOption[];
       return (
         <>
@@ -121,7 +141,9 @@ export const NodeInspector = ({
           )}
           <select
             className={selectClassName}
-            value={String(value || options[0]?.value || "")}
+            value={String(
+              field.optionsSource ? value ?? "" : value || options[0]?.value || ""
+            )}
             ref={registerRef}
             onChange={(event) =>
               onChange(node.id, { ...node.config, [field.key]: event.target.value })
@@ -203,6 +225,7 @@ export const NodeInspector = ({
         )}
         <input
           className={inputClass}
+          type={field.type === "time" ? "time" : "text"}
           value={String(value ?? "")}
           placeholder={field.placeholder}
           ref={registerRef}
@@ -210,6 +233,28 @@ export const NodeInspector = ({
             onChange(node.id, { ...node.config, [field.key]: event.target.value })
           }
         />
+        {field.mergeFields && mergeFieldKeys.length > 0 && (
+          <select
+            className="select-input"
+            value=""
+            onChange={(event) => {
+              if (!event.target.value) {
+                return;
+              }
+              onChange(node.id, {
+                ...node.config,
+                [field.key]: `${String(value ?? "")}${event.target.value}`
+              });
+            }}
+          >
+            <option value="">Insert merge field...</option>
+            {mergeFieldKeys.map((fieldKey) => (
+              <option key={fieldKey} value={toMergeFieldToken(fieldKey)}>
+                {toMergeFieldToken(fieldKey)}
+              </option>
+            ))}
+          </select>
+        )}
       </>
     );
   };
@@ -219,7 +264,7 @@ export const NodeInspector = ({
       <div className="inspector-header">
         <div className="inspector-title">{definition.label}</div>
         <div className="inspector-subtitle">{definition.description}</div>
-        {(onMove || onDelete) && (
+        {(onMove || onDelete || onToggleBreakpoint) && (
           <div className="inspector-actions">
             {onMove && (
               <>
@@ -260,6 +305,20 @@ export const NodeInspector = ({
                 </div>
               </>
             )}
+            {onToggleBreakpoint && (
+              <>
+                <button
+                  type="button"
+                  className="btn btn-secondary btn-inline"
+                  onClick={() => onToggleBreakpoint(node.id)}
+                >
+                  {hasBreakpoint ? "Remove breakpoint" : "Add breakpoint"}
+                </button>
+                <div className="inspector-hint">
+                  The debugger on the Simulate tab pauses before this step runs.
+                </div>
+              </>
+            )}
           </div>
         )}
       </div>
@@ -285,6 +344,16 @@ export const NodeInspector = ({
           config={node.config as any}
           onChange={(config) => onChange(node.id, config)}
         />
+      ) : definition.customEditor === "goal" ? (
+        <GoalEditor
+          config={node.config as any}
+          onChange={(config) => onChange(node.id, config)}
+        />
+      ) : definition.customEditor === "split" ? (
+        <SplitEditor
+          config={node.config as any}
+          onChange={(config) => onChange(node.id, config)}
+        />
       ) : (
         <>
           <div className="inspector-fields">
@@ -296,7 +365,7 @@ export const NodeInspector = ({
               >
                 <span className="field-label">
                   {field.label}
-                  {field.required ? " *" : ""}
+                  {isFieldRequired(field, node.config) ? " *" : ""}
                 </span>
                 {renderField(field, focusFieldKey === field.key)}
                 {field.helper && <span className="field-helper">{field.helper}</span>}
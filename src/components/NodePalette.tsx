@@ -78,7 +78,9 @@ export const NodePalette = ({
               {getGhlTerm(node.type) && (
                 <div className="palette-item-where">{getGhlTerm(node.type)?.ghlWhere}</div>
               )}
-              {(node.type === "ifElse" || node.type === "wait.duration") && (
+              {(node.type === "ifElse" ||
+                node.type === "wait.duration" ||
+                node.type === "wait.untilTime") && (
                 <div
                   className="tooltip-badge tooltip-badge--inline"
                   title={`What is this? ${node.description}`}
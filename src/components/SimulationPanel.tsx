@@ -1,9 +1,34 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
-import type { ScenarioDefinition, ScenarioTestCase } from "@/lib/scenarioTypes";
-import { runSimulationTestCase } from "@/lib/simulation";
-import { loadWorkflowGraph } from "@/lib/workflowStorage";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type {
+  ScenarioDefinition,
+  ScenarioTeamMember,
+  ScenarioTestCase
+} from "@/lib/scenarioTypes";
+import {
+  checkTestCaseExpectations,
+  continueSimulationRun,
+  getTestCaseRunResults,
+  runSimulationTestCase,
+  startSimulationRun,
+  toBreakpointKey,
+  describeAppointment,
+  describeOpportunity,
+  describeStateChange,
+  type ConditionGroupTrace,
+  type ContactSnapshot,
+  type IfElseTrace,
+  type SimulationLogEntry,
+  type SimulationPause,
+  type SimulationResult,
+  type SimulationRun,
+  type SimulationWorkflow
+} from "@/lib/simulation";
+import { runStressTest, type StressTestReport } from "@/lib/stressTest";
+import { loadBreakpoints, loadWorkflowGraph } from "@/lib/workflowStorage";
+import { getNodeDisplayName } from "@/lib/ghlTerms";
+import { formatClock, parseStartAt, toClockTime } from "@/lib/simulationClock";
 import { useProgress } from "@/contexts/ProgressContext";
 import { useCopilot } from "@/contexts/CopilotContext";
 import { GLOSSARY } from "@/data/glossary";
@@ -14,6 +39,141 @@ type SimulationPanelProps = {
   onStatusChange?: (passed: boolean) => void;
 };
 
+type PreparedRun = {
+  workflows: SimulationWorkflow[];
+  testCase: ScenarioTestCase;
+  team?: ScenarioTeamMember[];
+  breakpoints: Set<string>;
+};
+
+type DebugSession = PreparedRun & { run: SimulationRun };
+
+type TraceRow = {
+  key: string;
+  branch: string;
+  rule: string;
+  actual: string;
+  passed: boolean;
+  depth: number;
+};
+
+const flattenGroupTrace = (
+  group: ConditionGroupTrace,
+  branch: string,
+  keyPrefix: string,
+  depth: number
+): TraceRow[] => [
+  ...group.rules.map((rule, index) => ({
+    key: `${keyPrefix}-rule-${index}`,
+    branch,
+    rule: rule.description,
+    actual: rule.actual,
+    passed: rule.passed,
+    depth
+  })),
+  ...group.groups.flatMap((child, index) => [
+    {
+      key: `${keyPrefix}-group-${index}`,
+      branch,
+      rule: child.anyAll === "all" ? "Group: all of" : "Group: any of",
+      actual: "",
+      passed: child.passed,
+      depth
+    },
+    ...flattenGroupTrace(child, branch, `${keyPrefix}-${index}`, depth + 1)
+  ])
+];
+
+const buildTraceRows = (trace: IfElseTrace): TraceRow[] => {
+  const rows = trace.branches.flatMap((branch) => {
+    const ruleRows = flattenGroupTrace(branch.condition, branch.label, branch.branchId, 0);
+    return ruleRows.length
+      ? ruleRows
+      : [
+          {
+            key: `${branch.branchId}-empty`,
+            branch: branch.label,
+            rule: "No rules",
+            actual: "",
+            passed: false,
+            depth: 0
+          }
+        ];
+  });
+  if (trace.outcome === "else") {
+    rows.push({
+      key: "else",
+      branch: "Else",
+      rule: "No branch matched",
+      actual: "",
+      passed: true,
+      depth: 0
+    });
+  }
+  return rows;
+};
+
+const getContactStateAt = (result: SimulationResult, time: number | null): ContactSnapshot =>
+  time === null
+    ? result.finalState
+    : result.timeline.filter((entry) => entry.timestamp <= time).at(-1)?.snapshot ??
+      result.startSnapshot;
+
+const StateChangeList = ({ entry }: { entry: SimulationLogEntry }) =>
+  entry.changes?.length ? (
+    <div className="timeline-changes">
+      {entry.changes.map((change, index) => (
+        <span key={index} className={`state-change state-change--${change.kind}`}>
+          {describeStateChange(change)}
+        </span>
+      ))}
+    </div>
+  ) : null;
+
+const TimelineEntryCard = ({
+  entry,
+  startAt
+}: {
+  entry: SimulationLogEntry;
+  startAt: string;
+}) => (
+  <div className={`timeline-entry ${entry.level === "warning" ? "timeline-entry--warning" : ""}`}>
+    <div className="timeline-time">
+      +{entry.timestamp}s · {formatClock(toClockTime(parseStartAt(startAt), entry.timestamp))}
+    </div>
+    <div className="timeline-summary">{entry.summary}</div>
+    {entry.details && <div className="timeline-detail">{entry.details}</div>}
+    <StateChangeList entry={entry} />
+    {entry.ifElseTrace && (
+      <details className="timeline-trace">
+        <summary>Why this path?</summary>
+        <table className="trace-table">
+          <thead>
+            <tr>
+              <th>Branch</th>
+              <th>Rule</th>
+              <th>Actual value</th>
+              <th>Result</th>
+            </tr>
+          </thead>
+          <tbody>
+            {buildTraceRows(entry.ifElseTrace).map((row) => (
+              <tr key={row.key}>
+                <td>{row.branch}</td>
+                <td style={{ paddingLeft: 8 + row.depth * 14 }}>{row.rule}</td>
+                <td>{row.actual}</td>
+                <td className={row.passed ? "trace-pass" : "trace-fail"}>
+                  {row.passed ? "true" : "false"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    )}
+  </div>
+);
+
 export const SimulationPanel = ({
   moduleId,
   scenario,
@@ -26,6 +186,10 @@ export const SimulationPanel = ({
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ReturnType<typeof runSimulationTestCase> | null>(null);
   const [timeCursor, setTimeCursor] = useState<number | null>(null);
+  const [debugPause, setDebugPause] = useState<SimulationPause | null>(null);
+  const [view, setView] = useState<"tests" | "stress">("tests");
+  const [stressReport, setStressReport] = useState<StressTestReport | null>(null);
+  const debugRef = useRef<DebugSession | null>(null);
 
   const activeScenario = useMemo(() => {
     if (!scenario) return null;
@@ -43,13 +207,17 @@ export const SimulationPanel = ({
     onStatusChange?.(false);
   }, [moduleId, onStatusChange, scenario, selectedTestCaseIndex, selectedWorkflowId]);
 
-  const runSimulation = () => {
-    markSimulateAttempt(moduleId);
+  useEffect(() => {
+    debugRef.current = null;
+    setDebugPause(null);
+  }, [moduleId, scenario, selectedTestCaseIndex, selectedWorkflowId]);
+
+  const prepareRun = (): PreparedRun | null => {
     setError(null);
     if (!scenario) {
       setError("Lesson data not found.");
       onStatusChange?.(false);
-      return;
+      return null;
     }
 
     if ("workflows" in scenario) {
@@ -58,13 +226,13 @@ export const SimulationPanel = ({
       if (!active) {
         setError("Select a workflow to test.");
         onStatusChange?.(false);
-        return;
+        return null;
       }
       const testCase = active.scenario.testCases[selectedTestCaseIndex];
       if (!testCase) {
         setError("No test case available.");
         onStatusChange?.(false);
-        return;
+        return null;
       }
       const workflowGraphs = scenario.workflows
         .map((workflow) => ({
@@ -77,36 +245,247 @@ export const SimulationPanel = ({
       if (!workflowGraphs.length) {
         setError("No workflows saved yet. Build your steps first.");
         onStatusChange?.(false);
-        return;
+        return null;
       }
 
-      const result = runSimulationTestCase(workflowGraphs, testCase);
-      setResult(result);
-      onStatusChange?.(result.comparison.passed);
-      setTimeCursor(null);
-      return;
+      return {
+        workflows: workflowGraphs,
+        testCase,
+        team: scenario.team ?? active.scenario.team,
+        breakpoints: new Set(
+          workflowGraphs.flatMap((workflow) =>
+            loadBreakpoints(moduleId, workflow.workflowId).map((nodeId) =>
+              toBreakpointKey(workflow.workflowId, nodeId)
+            )
+          )
+        )
+      };
     }
 
     const testCase = scenario.testCases[selectedTestCaseIndex];
     if (!testCase) {
       setError("No test case available.");
       onStatusChange?.(false);
-      return;
+      return null;
     }
     const graph = loadWorkflowGraph(moduleId);
     if (!graph) {
       setError("No workflow saved yet. Build your steps first.");
       onStatusChange?.(false);
+      return null;
+    }
+    return {
+      workflows: [{ workflowId: "main", graph }],
+      testCase,
+      team: scenario.team,
+      breakpoints: new Set(
+        loadBreakpoints(moduleId).map((nodeId) => toBreakpointKey("main", nodeId))
+      )
+    };
+  };
+
+  const runSimulation = () => {
+    markSimulateAttempt(moduleId);
+    const prepared = prepareRun();
+    if (!prepared) {
       return;
     }
-    const result = runSimulationTestCase([{ workflowId: "main", graph }], testCase);
+    const result = runSimulationTestCase(prepared.workflows, prepared.testCase, prepared.team);
     setResult(result);
     onStatusChange?.(result.comparison.passed);
     setTimeCursor(null);
+    setDebugPause(null);
+    debugRef.current = null;
   };
 
+  const handleDebugStep = (next: IteratorResult<SimulationPause, SimulationResult>) => {
+    const session = debugRef.current;
+    if (!session) {
+      return;
+    }
+    if (next.done) {
+      const comparison = checkTestCaseExpectations(
+        session.workflows,
+        session.testCase,
+        [next.value],
+        undefined,
+        session.team
+      );
+      setResult({ result: next.value, comparison });
+      onStatusChange?.(comparison.passed);
+      setTimeCursor(null);
+      setDebugPause(null);
+      debugRef.current = null;
+      return;
+    }
+    setDebugPause({
+      ...next.value,
+      state: structuredClone(next.value.state),
+      timeline: [...next.value.timeline]
+    });
+  };
+
+  const startDebugger = () => {
+    markSimulateAttempt(moduleId);
+    const prepared = prepareRun();
+    if (!prepared) {
+      return;
+    }
+    if (prepared.testCase.contacts?.length) {
+      setError(
+        "The debugger steps through one contact. Use Run test for test cases with several contacts."
+      );
+      return;
+    }
+    const run = startSimulationRun(prepared.workflows, prepared.testCase, prepared.team);
+    debugRef.current = { ...prepared, run };
+    setResult(null);
+    // With no breakpoints set, pause on the first step so there is something to step through.
+    handleDebugStep(
+      prepared.breakpoints.size ? continueSimulationRun(run, prepared.breakpoints) : run.next()
+    );
+  };
+
+  const stopDebugger = () => {
+    debugRef.current = null;
+    setDebugPause(null);
+  };
+
+  const getDebugNodeLabel = (workflowId: string, nodeId: string) => {
+    const graph = debugRef.current?.workflows.find(
+      (workflow) => workflow.workflowId === workflowId
+    )?.graph;
+    const node = graph?.nodes.find((item) => item.id === nodeId);
+    const label = node ? getNodeDisplayName(node.type) : nodeId;
+    return debugRef.current && debugRef.current.workflows.length > 1
+      ? `${label} (${workflowId})`
+      : label;
+  };
+
+  const allTimestamps = result
+    ? getTestCaseRunResults(result).flatMap((run) => run.timeline.map((entry) => entry.timestamp))
+    : [];
+  const lastTimestamp = allTimestamps.length ? Math.max(...allTimestamps) : 0;
+  const batchTotals = result?.batch?.totals;
+  const showBranchWorkflow =
+    new Set(batchTotals?.branches.map((branch) => branch.workflowId)).size > 1;
+  const isBatchTestCase = Boolean(testCases[selectedTestCaseIndex]?.contacts?.length);
+  const cursorTime = timeCursor ?? lastTimestamp;
+
+  const runStressCheck = () => {
+    setError(null);
+    if (!scenario) {
+      setError("Lesson data not found.");
+      return;
+    }
+    const isBundle = "workflows" in scenario;
+    const workflows = (
+      isBundle
+        ? scenario.workflows.map((workflow) => ({
+            workflowId: workflow.workflowId,
+            graph: loadWorkflowGraph(moduleId, workflow.workflowId)
+          }))
+        : [{ workflowId: "main", graph: loadWorkflowGraph(moduleId) }]
+    ).flatMap((item) => (item.graph ? [{ workflowId: item.workflowId, graph: item.graph }] : []));
+    if (!workflows.length) {
+      setError("No workflow saved yet. Build your steps first.");
+      return;
+    }
+    setStressReport(
+      runStressTest(
+        workflows,
+        isBundle ? scenario.workflows.map((workflow) => workflow.scenario) : [scenario],
+        scenario.team
+      )
+    );
+  };
+
+  const tabBar = (
+    <div className="tab-bar">
+      <button
+        type="button"
+        className={`tab-button ${view === "tests" ? "tab-button--active" : ""}`}
+        onClick={() => setView("tests")}
+      >
+        <span className="tab-label">Test cases</span>
+        <span className="tab-helper">Run the lesson's tests.</span>
+      </button>
+      <button
+        type="button"
+        className={`tab-button ${view === "stress" ? "tab-button--active" : ""}`}
+        onClick={() => setView("stress")}
+      >
+        <span className="tab-label">Stress test</span>
+        <span className="tab-helper">Optional: try many made-up contacts.</span>
+      </button>
+    </div>
+  );
+
+  if (view === "stress") {
+    const isBundle = Boolean(scenario && "workflows" in scenario);
+    return (
+      <div className="simulation-panel">
+        {tabBar}
+        <div className="field-helper">
+          Makes contacts from every tag and field this lesson uses, with values missing, blank
+          or different, and runs them through your workflow.
+        </div>
+        <div className="simulation-actions">
+          <button className="btn" onClick={runStressCheck}>
+            Run stress test
+          </button>
+        </div>
+        {error && <div className="callout callout-warning">{error}</div>}
+        {stressReport && (
+          <div className="simulation-results">
+            <div
+              className={`status-pill status-pill--${
+                stressReport.findings.some((finding) => finding.level === "error")
+                  ? "available"
+                  : "completed"
+              }`}
+            >
+              {stressReport.findings.length
+                ? `${stressReport.findings.length} surprise(s) in ${stressReport.contactCount} contacts`
+                : `No surprises in ${stressReport.contactCount} contacts`}
+            </div>
+            {stressReport.skippedCount > 0 && (
+              <div className="muted">
+                {stressReport.skippedCount} more made-up contact(s) were not run. The{" "}
+                {stressReport.contactCount} that ran were taken from each test case in turn.
+              </div>
+            )}
+            <div className="issue-list">
+              {stressReport.findings.map((finding) => (
+                <div
+                  key={`${finding.kind}-${finding.workflowId}-${finding.nodeId}`}
+                  className="issue-card"
+                >
+                  <div className="issue-header">
+                    <span className={`issue-level issue-level--${finding.level}`}>
+                      {finding.level}
+                    </span>
+                  </div>
+                  <div className="issue-line">
+                    <strong>What happened:</strong> {finding.message}
+                    {isBundle ? ` (${finding.workflowId})` : ""}
+                  </div>
+                  <div className="issue-line">
+                    <strong>Contacts:</strong> {finding.contacts.slice(0, 5).join("; ")}
+                    {finding.contacts.length > 5 ? ` and ${finding.contacts.length - 5} more` : ""}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="simulation-panel">
+      {tabBar}
       {scenario && "workflows" in scenario && (
         <label className="field">
           <span className="field-label">Workflow</span>
@@ -143,6 +522,14 @@ export const SimulationPanel = ({
         <button className="btn" onClick={runSimulation}>
           Run test
         </button>
+        <button
+          className="btn btn-secondary"
+          onClick={startDebugger}
+          disabled={isBatchTestCase}
+          title={isBatchTestCase ? "The debugger steps through one contact at a time." : undefined}
+        >
+          {debugPause ? "Restart debugger" : "Debug"}
+        </button>
         <button
           className="btn btn-secondary"
           onClick={() =>
@@ -165,6 +552,113 @@ export const SimulationPanel = ({
 
       {error && <div className="callout callout-warning">{error}</div>}
 
+      {debugPause && debugRef.current && (
+        <div className="debugger-panel">
+          <div className="debugger-status">
+            Paused before {getDebugNodeLabel(debugPause.workflowId, debugPause.node.id)} at +
+            {debugPause.time}s ·{" "}
+            {formatClock(
+              toClockTime(
+                parseStartAt(
+                  debugRef.current.testCase.startAt,
+                  debugRef.current.testCase.timezone
+                ),
+                debugPause.time
+              )
+            )}
+          </div>
+          <div className="simulation-actions">
+            <button className="btn" onClick={() => handleDebugStep(debugRef.current!.run.next())}>
+              Step
+            </button>
+            <button
+              className="btn btn-secondary"
+              onClick={() =>
+                handleDebugStep(
+                  continueSimulationRun(debugRef.current!.run, debugRef.current!.breakpoints)
+                )
+              }
+            >
+              Continue
+            </button>
+            <button className="btn btn-secondary" onClick={stopDebugger}>
+              Stop
+            </button>
+          </div>
+          {!debugRef.current.breakpoints.size && (
+            <div className="field-helper">
+              No breakpoints set. Select a step on the canvas and choose Add breakpoint.
+            </div>
+          )}
+          <div className="state-grid">
+            <div>
+              <div className="state-label">Tags</div>
+              <div className="state-value">{debugPause.state.tags.join(", ") || "None"}</div>
+            </div>
+            <div>
+              <div className="state-label">Fields</div>
+              <pre className="state-value">
+{JSON.stringify(debugPause.state.fields, null, 2)}
+              </pre>
+            </div>
+            <div>
+              <div className="state-label">Appointment</div>
+              <div className="state-value">{describeAppointment(debugPause.state.appointment)}</div>
+            </div>
+            <div>
+              <div className="state-label">Opportunities</div>
+              <div className="state-value">
+                {debugPause.state.opportunities.map(describeOpportunity).join("; ") || "None"}
+              </div>
+            </div>
+            <div>
+              <div className="state-label">Queued steps</div>
+              <ul className="debugger-list">
+                {debugPause.queuedNodes.map((item, index) => (
+                  <li key={`${item.nodeId}-${index}`}>
+                    +{item.time}s {getDebugNodeLabel(item.workflowId, item.nodeId)}
+                  </li>
+                ))}
+                {!debugPause.queuedNodes.length && <li>None</li>}
+              </ul>
+            </div>
+            <div>
+              <div className="state-label">Pending events</div>
+              <ul className="debugger-list">
+                {debugPause.pendingEvents.map((item, index) => (
+                  <li key={`${item.event.type}-${index}`}>
+                    +{item.time}s {item.event.type}
+                    {item.event.tag ? ` (${item.event.tag})` : ""}
+                  </li>
+                ))}
+                {!debugPause.pendingEvents.length && <li>None</li>}
+              </ul>
+            </div>
+          </div>
+          <div className="simulation-section">
+            <div className="section-title">Timeline so far</div>
+            <div className="timeline">
+              {debugPause.timeline.map((entry, index) => (
+                <div
+                  key={`${entry.nodeId}-${index}`}
+                  className={`timeline-entry ${
+                    entry.level === "warning" ? "timeline-entry--warning" : ""
+                  }`}
+                >
+                  <div className="timeline-time">+{entry.timestamp}s</div>
+                  <div className="timeline-summary">{entry.summary}</div>
+                  {entry.details && <div className="timeline-detail">{entry.details}</div>}
+                  <StateChangeList entry={entry} />
+                </div>
+              ))}
+              {!debugPause.timeline.length && (
+                <div className="field-helper">Nothing has run yet.</div>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
       {result && (
         <div className="simulation-results">
           <div
@@ -199,11 +693,12 @@ export const SimulationPanel = ({
             <summary>Advanced timeline controls</summary>
             <div className="time-controls">
               <div className="field">
-                <span className="field-label">Show steps up to (seconds)</span>
+                <span className="field-label">Show state at +{cursorTime}s</span>
                 <input
-                  className="text-input"
-                  type="number"
-                  value={timeCursor ?? result.result.timeline.at(-1)?.timestamp ?? 0}
+                  type="range"
+                  min={0}
+                  max={lastTimestamp}
+                  value={Math.min(cursorTime, lastTimestamp)}
                   onChange={(event) => setTimeCursor(Number(event.target.value))}
                 />
               </div>
@@ -231,8 +726,7 @@ export const SimulationPanel = ({
                 <button
                   className="btn btn-secondary"
                   onClick={() => {
-                    const timestamps = result.result.timeline.map((entry) => entry.timestamp);
-                    const sorted = Array.from(new Set(timestamps)).sort((a, b) => a - b);
+                    const sorted = Array.from(new Set(allTimestamps)).sort((a, b) => a - b);
                     const current = timeCursor ?? -1;
                     const next = sorted.find((time) => time > current);
                     setTimeCursor(next ?? current);
@@ -254,42 +748,126 @@ export const SimulationPanel = ({
             </div>
           )}
 
-          <div className="simulation-section">
-            <div className="section-title">Timeline</div>
-            <div className="timeline">
-              {result.result.timeline
-                .filter(
-                  (entry) =>
-                    entry.timestamp <=
-                    (timeCursor ?? result.result.timeline.at(-1)?.timestamp ?? 0)
-                )
-                .map((entry, index) => (
-                  <div key={`${entry.nodeId}-${index}`} className="timeline-entry">
-                    <div className="timeline-time">+{entry.timestamp}s</div>
-                    <div className="timeline-summary">{entry.summary}</div>
-                    {entry.details && <div className="timeline-detail">{entry.details}</div>}
+          {batchTotals && (
+            <div className="simulation-section">
+              <div className="section-title">Batch summary</div>
+              <div className="state-grid">
+                <div>
+                  <div className="state-label">Contacts</div>
+                  <div className="state-value">{batchTotals.contacts}</div>
+                </div>
+                <div>
+                  <div className="state-label">Messages sent</div>
+                  <div className="state-value">
+                    {batchTotals.messagesSent.sms} SMS ·{" "}
+                    {batchTotals.messagesSent.email} email
                   </div>
-                ))}
+                </div>
+                <div>
+                  <div className="state-label">Contacts stopped early</div>
+                  <div className="state-value">{batchTotals.contactsStopped}</div>
+                </div>
+              </div>
+              {batchTotals.branches.length > 0 && (
+                <table className="trace-table">
+                  <thead>
+                    <tr>
+                      <th>Path</th>
+                      <th>Contacts</th>
+                      <th>Messages after</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batchTotals.branches.map((branch) => (
+                      <tr key={`${branch.workflowId}-${branch.nodeId}-${branch.label}`}>
+                        <td>
+                          {getNodeDisplayName(branch.nodeType)}: {branch.label}
+                          {showBranchWorkflow ? ` (${branch.workflowId})` : ""}
+                        </td>
+                        <td>{branch.contacts}</td>
+                        <td>{branch.messages}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
             </div>
-          </div>
+          )}
 
-          <div className="simulation-section">
-            <div className="section-title">Final state</div>
-            <div className="state-grid">
-              <div>
-                <div className="state-label">Tags</div>
-                <div className="state-value">
-                  {result.result.finalState.tags.join(", ") || "None"}
-                </div>
+          {result.batch ? (
+            <div className="simulation-section">
+              <div className="section-title">Timeline by contact</div>
+              {result.batch.contacts.map((contact, contactIndex) => (
+                <details key={contact.name} className="timeline-contact" open={contactIndex === 0}>
+                  <summary>
+                    {contact.name} · {contact.result.finalState.tags.join(", ") || "No tags"}
+                  </summary>
+                  <div className="timeline">
+                    {contact.result.timeline
+                      .filter((entry) => entry.timestamp <= cursorTime)
+                      .map((entry, index) => (
+                        <TimelineEntryCard
+                          key={`${entry.nodeId}-${index}`}
+                          entry={entry}
+                          startAt={contact.result.startAt}
+                        />
+                      ))}
+                  </div>
+                </details>
+              ))}
+            </div>
+          ) : (
+            <div className="simulation-section">
+              <div className="section-title">Timeline</div>
+              <div className="timeline">
+                {result.result.timeline
+                  .filter((entry) => entry.timestamp <= cursorTime)
+                  .map((entry, index) => (
+                    <TimelineEntryCard
+                      key={`${entry.nodeId}-${index}`}
+                      entry={entry}
+                      startAt={result.result.startAt}
+                    />
+                  ))}
+              </div>
+            </div>
+          )}
+
+          {!result.batch && (
+            <div className="simulation-section">
+              <div className="section-title">
+                {timeCursor === null ? "Final state" : `State at +${cursorTime}s`}
               </div>
-              <div>
-                <div className="state-label">Fields</div>
-                <pre className="state-value">
-{JSON.stringify(result.result.finalState.fields, null, 2)}
-                </pre>
+              <div className="state-grid">
+                <div>
+                  <div className="state-label">Tags</div>
+                  <div className="state-value">
+                    {getContactStateAt(result.result, timeCursor).tags.join(", ") || "None"}
+                  </div>
+                </div>
+                <div>
+                  <div className="state-label">Fields</div>
+                  <pre className="state-value">
+{JSON.stringify(getContactStateAt(result.result, timeCursor).fields, null, 2)}
+                  </pre>
+                </div>
+                <div>
+                  <div className="state-label">Appointment</div>
+                  <div className="state-value">
+                    {describeAppointment(getContactStateAt(result.result, timeCursor).appointment)}
+                  </div>
+                </div>
+                <div>
+                  <div className="state-label">Opportunities</div>
+                  <div className="state-value">
+                    {getContactStateAt(result.result, timeCursor)
+                      .opportunities.map(describeOpportunity)
+                      .join("; ") || "None"}
+                  </div>
+                </div>
               </div>
             </div>
-          </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,80 @@
+"use client";
+
+import { nanoid } from "nanoid";
+import type { SplitConfig, SplitPath } from "@/lib/workflowTypes";
+
+type SplitEditorProps = {
+  config: SplitConfig;
+  onChange: (config: SplitConfig) => void;
+};
+
+const pathLabel = (index: number) => String.fromCharCode(65 + (index % 26));
+
+export const SplitEditor = ({ config, onChange }: SplitEditorProps) => {
+  const paths = config.paths ?? [];
+  const total = paths.reduce((sum, path) => sum + Math.max(path.weight, 0), 0);
+
+  const updatePath = (pathIndex: number, updater: (path: SplitPath) => SplitPath) => {
+    onChange({
+      ...config,
+      paths: paths.map((path, index) => (index === pathIndex ? updater(path) : path))
+    });
+  };
+
+  return (
+    <div className="ifelse-editor">
+      <div className="field-helper">
+        Each contact takes one path at random. Tests use a fixed seed, so the same test
+        always picks the same path.
+      </div>
+
+      {paths.map((path, pathIndex) => (
+        <div key={path.id} className="ifelse-branch-header">
+          <input
+            className="text-input"
+            value={path.label}
+            onChange={(event) =>
+              updatePath(pathIndex, (current) => ({ ...current, label: event.target.value }))
+            }
+          />
+          <input
+            className="text-input"
+            type="number"
+            min={0}
+            value={path.weight}
+            onChange={(event) =>
+              updatePath(pathIndex, (current) => ({
+                ...current,
+                weight: Number(event.target.value)
+              }))
+            }
+          />
+          <span className="field-helper">
+            {total ? `${Math.round((Math.max(path.weight, 0) / total) * 100)}%` : "0%"}
+          </span>
+          <button
+            className="btn btn-secondary"
+            onClick={() =>
+              onChange({ ...config, paths: paths.filter((_, index) => index !== pathIndex) })
+            }
+            disabled={paths.length <= 2}
+          >
+            Remove path
+          </button>
+        </div>
+      ))}
+
+      <button
+        className="btn"
+        onClick={() =>
+          onChange({
+            ...config,
+            paths: [...paths, { id: nanoid(), label: pathLabel(paths.length), weight: 0 }]
+          })
+        }
+      >
+        Add path
+      </button>
+    </div>
+  );
+};
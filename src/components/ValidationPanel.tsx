@@ -10,12 +10,26 @@ import {
   type ValidationStage
 } from "@/lib/validation";
 import { loadWorkflowGraph } from "@/lib/workflowStorage";
-import { runSimulationTestCase } from "@/lib/simulation";
+import {
+  getTestCaseRunResults,
+  runSimulationTestCase,
+  type SimulationResult
+} from "@/lib/simulation";
+import { buildCoverageReport, isCoverageComplete, type CoverageReport } from "@/lib/coverage";
+import {
+  describePathConditions,
+  describeWorkflowPath,
+  enumerateWorkflowPaths,
+  type PathEnumeration
+} from "@/lib/pathEnumeration";
 import { useProgress } from "@/contexts/ProgressContext";
 import { useCopilot } from "@/contexts/CopilotContext";
 import { summarizeGraph } from "@/lib/graphSummary";
 import { GLOSSARY } from "@/data/glossary";
 import { getNodeDisplayName } from "@/lib/ghlTerms";
+import { getConditionOperator } from "@/lib/conditions";
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+import { buildWorkflowMap } from "@/lib/workflowMap";
 
 type ValidationPanelProps = {
   moduleId: string;
@@ -23,6 +37,7 @@ type ValidationPanelProps = {
   onFixNode?: (nodeId?: string, fieldKey?: string) => void;
   onStatusChange?: (passed: boolean) => void;
   onIssuesChange?: (issues: ValidationIssueWithContext[]) => void;
+  onCoverageChange?: (coverage: CoverageReport[]) => void;
 };
 
 type BundleResult = {
@@ -32,6 +47,13 @@ type BundleResult = {
   graphSummary?: ReturnType<typeof summarizeGraph>;
   scenarioTitle?: string;
   requirements?: ReturnType<typeof checkScenarioRequirements>;
+  coverage?: CoverageReport;
+  paths?: PathListing;
+};
+
+type PathListing = {
+  graph: WorkflowGraph;
+  enumeration: PathEnumeration;
 };
 
 export const ValidationPanel = ({
@@ -39,7 +61,8 @@ export const ValidationPanel = ({
   scenario,
   onFixNode,
   onStatusChange,
-  onIssuesChange
+  onIssuesChange,
+  onCoverageChange
 }: ValidationPanelProps) => {
   const stageLabels: Record<ValidationStage, string> = {
     A: "Start",
@@ -55,6 +78,8 @@ export const ValidationPanel = ({
   const [graphSummary, setGraphSummary] = useState<ReturnType<typeof summarizeGraph> | null>(
     null
   );
+  const [coverage, setCoverage] = useState<CoverageReport | null>(null);
+  const [paths, setPaths] = useState<PathListing | null>(null);
 
   const buildMissingWorkflowIssue = (
     workflowId?: string,
@@ -82,9 +107,13 @@ export const ValidationPanel = ({
       setError("This lesson data is missing.");
       onStatusChange?.(false);
       onIssuesChange?.([]);
+      onCoverageChange?.([]);
       return;
     }
 
+    // Every test case run is kept so coverage can be reported without re-running.
+    const runs: SimulationResult[] = [];
+
     if ("workflows" in scenario) {
       setRequirementResults(null);
       const workflowGraphs = scenario.workflows.map((workflow) => ({
@@ -92,6 +121,13 @@ export const ValidationPanel = ({
         graph: loadWorkflowGraph(moduleId, workflow.workflowId)
       }));
 
+      // Loops between workflows are found from the saved graphs before any test runs.
+      const workflowMap = buildWorkflowMap(
+        workflowGraphs.flatMap((item) =>
+          item.graph ? [{ workflowId: item.workflowId, graph: item.graph }] : []
+        )
+      );
+
       const results = scenario.workflows.map((workflow) => {
         const graph = workflowGraphs.find(
           (item) => item.workflowId === workflow.workflowId
@@ -104,6 +140,7 @@ export const ValidationPanel = ({
           };
         }
         const graphSummary = summarizeGraph(graph);
+        const enumeration = enumerateWorkflowPaths(graph);
         const runner = (_: any, testCase: any) => {
           const workflows = workflowGraphs
             .filter((item) => item.graph)
@@ -111,16 +148,29 @@ export const ValidationPanel = ({
               workflowId: item.workflowId,
               graph: item.graph!
             }));
-          const comparison = runSimulationTestCase(workflows, testCase).comparison;
-          return { passed: comparison.passed, errors: comparison.errors };
+          const run = runSimulationTestCase(
+            workflows,
+            testCase,
+            scenario.team ?? workflow.scenario.team
+          );
+          runs.push(...getTestCaseRunResults(run));
+          return { passed: run.comparison.passed, errors: run.comparison.errors };
         };
         return {
           workflowId: workflow.workflowId,
           title: workflow.scenario.title,
-          result: validateWorkflow(graph, workflow.scenario, runner),
+          result: validateWorkflow(graph, workflow.scenario, runner, {
+            workflowId: workflow.workflowId,
+            workflowIds: scenario.workflows.map((item) => item.workflowId),
+            graphs: workflowGraphs.flatMap((item) => (item.graph ? [item.graph] : [])),
+            scenarios: scenario.workflows.map((item) => item.scenario),
+            workflowMap,
+            paths: enumeration
+          }),
           graphSummary,
           scenarioTitle: workflow.scenario.title,
-          requirements: checkScenarioRequirements(graph, workflow.scenario)
+          requirements: checkScenarioRequirements(graph, workflow.scenario, enumeration),
+          paths: { graph, enumeration }
         };
       });
       const missingIssues = results
@@ -137,10 +187,21 @@ export const ValidationPanel = ({
       );
       const allIssues = missingIssues.concat(issueList);
       const passed = results.every((item) => item.result?.passed);
+      const coverageReports = workflowGraphs.flatMap((item) =>
+        item.graph ? [buildCoverageReport(item.workflowId, item.graph, runs)] : []
+      );
       onStatusChange?.(passed);
       onIssuesChange?.(allIssues);
-      setBundleResults(results);
+      onCoverageChange?.(coverageReports);
+      setBundleResults(
+        results.map((item) => ({
+          ...item,
+          coverage: coverageReports.find((report) => report.workflowId === item.workflowId)
+        }))
+      );
       setResult(null);
+      setCoverage(null);
+      setPaths(null);
       return;
     }
 
@@ -149,23 +210,35 @@ export const ValidationPanel = ({
       setError("No workflow saved yet. Build your steps first.");
       onStatusChange?.(false);
       onIssuesChange?.([buildMissingWorkflowIssue()]);
+      onCoverageChange?.([]);
       return;
     }
     setGraphSummary(summarizeGraph(graph));
     const runner = (_: any, testCase: any) => {
-      const comparison = runSimulationTestCase(
+      const run = runSimulationTestCase(
         [{ workflowId: "main", graph }],
-        testCase
-      ).comparison;
-      return { passed: comparison.passed, errors: comparison.errors };
+        testCase,
+        scenario.team
+      );
+      runs.push(...getTestCaseRunResults(run));
+      return { passed: run.comparison.passed, errors: run.comparison.errors };
     };
     setBundleResults(null);
-    const result = validateWorkflow(graph, scenario, runner);
+    const enumeration = enumerateWorkflowPaths(graph);
+    const result = validateWorkflow(graph, scenario, runner, {
+      workflowId: "main",
+      workflowIds: ["main"],
+      paths: enumeration
+    });
     setResult(result);
     onStatusChange?.(result.passed);
     onIssuesChange?.(result.issues ?? []);
     setBundleResults(null);
-    setRequirementResults(checkScenarioRequirements(graph, scenario));
+    setRequirementResults(checkScenarioRequirements(graph, scenario, enumeration));
+    setPaths({ graph, enumeration });
+    const coverageReport = buildCoverageReport("main", graph, runs);
+    setCoverage(coverageReport);
+    onCoverageChange?.([coverageReport]);
   };
 
   const renderIssues = (
@@ -216,6 +289,14 @@ export const ValidationPanel = ({
                 {issue.fieldKey ? "Fix this field" : "Fix this step"}
               </button>
             )}
+            {issue.relatedNodeId && (
+              <button
+                className="btn btn-secondary"
+                onClick={() => onFixNode?.(issue.relatedNodeId)}
+              >
+                Show earlier step
+              </button>
+            )}
           </div>
         ))}
       </div>
@@ -238,9 +319,11 @@ export const ValidationPanel = ({
         {requirements.map((item, index) => (
           <div key={`${item.requirement.type}-${index}`} className="requirement-item">
             <span
-              className={`status-pill status-pill--${item.passed ? "completed" : "available"}`}
+              className={`status-pill status-pill--${
+                item.passed ? "completed" : item.inconclusive ? "locked" : "available"
+              }`}
             >
-              {item.passed ? "Pass" : "Check"}
+              {item.passed ? "Pass" : item.inconclusive ? "Not sure" : "Check"}
             </span>
             <span className="requirement-text">
               {formatRequirement(item.requirement)}
@@ -251,6 +334,93 @@ export const ValidationPanel = ({
     );
   };
 
+  const renderCoverage = (report?: CoverageReport | null) => {
+    if (!report) {
+      return null;
+    }
+    return (
+      <div className="requirement-list">
+        <div className="section-title">Test coverage</div>
+        <div className="muted">
+          Steps run: {report.coveredNodes}/{report.totalNodes}
+          {report.totalBranches > 0 &&
+            ` · If/Else paths taken: ${report.coveredBranches}/${report.totalBranches}`}
+        </div>
+        {isCoverageComplete(report) ? (
+          <div className="muted">Every step and path ran in at least one test case.</div>
+        ) : (
+          <>
+            {report.uncoveredNodes.map((node) => (
+              <div key={node.nodeId} className="requirement-item">
+                <span className="status-pill status-pill--available">Not run</span>
+                <span className="requirement-text">{getNodeDisplayName(node.nodeType)}</span>
+                <button
+                  className="btn btn-secondary btn-inline"
+                  onClick={() => onFixNode?.(node.nodeId)}
+                >
+                  Show step
+                </button>
+              </div>
+            ))}
+            {report.uncoveredBranches.map((branch) => (
+              <div key={`${branch.nodeId}-${branch.handle}`} className="requirement-item">
+                <span className="status-pill status-pill--available">Not taken</span>
+                <span className="requirement-text">If/Else path: {branch.label}</span>
+                <button
+                  className="btn btn-secondary btn-inline"
+                  onClick={() => onFixNode?.(branch.nodeId)}
+                >
+                  Show step
+                </button>
+              </div>
+            ))}
+            <div className="muted">
+              No test case reaches these. They may be fine, but they are untested.
+            </div>
+          </>
+        )}
+      </div>
+    );
+  };
+
+  const renderPaths = (listing?: PathListing | null) => {
+    if (!listing?.enumeration.paths.length) {
+      return null;
+    }
+    const { graph, enumeration } = listing;
+    return (
+      <div className="requirement-list">
+        <div className="section-title">Paths</div>
+        {enumeration.paths.map((path, index) => {
+          const conditions = describePathConditions(path);
+          return (
+            <div key={index} className="requirement-item">
+              <span
+                className={`status-pill status-pill--${
+                  path.end === "loop" ? "available" : "completed"
+                }`}
+              >
+                {path.end === "stop" ? "Stop" : path.end === "loop" ? "Loops" : "Ends"}
+              </span>
+              <span className="requirement-text">
+                Path {index + 1}: {describeWorkflowPath(graph, path)}
+                {conditions.length > 0 && (
+                  <span className="muted"> · When {conditions.join("; ")}</span>
+                )}
+              </span>
+            </div>
+          );
+        })}
+        {enumeration.truncated && (
+          <div className="muted">
+            Showing the first {enumeration.paths.length} paths. Path checklist items that none
+            of these meet are marked Not sure.
+          </div>
+        )}
+      </div>
+    );
+  };
+
   const formatRequirement = (
     requirement: ReturnType<typeof checkScenarioRequirements>[number]["requirement"]
   ) => {
@@ -275,6 +445,12 @@ export const ValidationPanel = ({
         return `Includes ${requirement.nodeTypes.map(getNodeDisplayName).join(", ")}`;
       case "requireStopPath":
         return "Each path ends when there are no more steps";
+      case "conditionUsesOperator":
+        return `If/Else uses ${
+          getConditionOperator(requirement.operator)?.label ?? requirement.operator
+        }${requirement.fieldKey ? ` on ${requirement.fieldKey}` : ""}`;
+      case "enrollsWorkflow":
+        return `Adds the contact to workflow ${requirement.workflowId}`;
       default:
         return "Requirement";
     }
@@ -292,6 +468,8 @@ export const ValidationPanel = ({
             {result.passed ? "All checks passed" : "Needs fixes"}
           </div>
           {renderRequirements(requirementResults)}
+          {renderCoverage(coverage)}
+          {renderPaths(paths)}
           {renderIssues(result, graphSummary ?? undefined, scenario && !("workflows" in scenario) ? scenario.title : undefined)}
         </div>
       )}
@@ -313,6 +491,8 @@ export const ValidationPanel = ({
                     {workflow.result.passed ? "Passed" : "Needs fixes"}
                   </div>
                   {renderRequirements(workflow.requirements ?? null)}
+                  {renderCoverage(workflow.coverage)}
+                  {renderPaths(workflow.paths)}
                   {renderIssues(workflow.result, workflow.graphSummary, workflow.scenarioTitle)}
                 </>
               )}
@@ -17,11 +17,19 @@ import "reactflow/dist/style.css";
 import { nanoid } from "nanoid";
 import { NodePalette } from "@/components/NodePalette";
 import { NodeInspector } from "@/components/NodeInspector";
-import { IfElseNode, WorkflowNode } from "@/components/WorkflowNodes";
-import { getDefaultConfig, getNodeDefinition } from "@/lib/nodeCatalog";
-import type { NodeKind, NodeType, WorkflowNode as WorkflowNodeType } from "@/lib/workflowTypes";
+import { WorkflowSettingsEditor } from "@/components/WorkflowSettingsEditor";
+import { IfElseNode, SplitNode, WorkflowNode } from "@/components/WorkflowNodes";
+import { getDefaultConfig, getNodeDefinition, isFieldRequired } from "@/lib/nodeCatalog";
+import type {
+  NodeKind,
+  NodeType,
+  WorkflowGraph,
+  WorkflowNode as WorkflowNodeType
+} from "@/lib/workflowTypes";
 import { getBuilderWarnings, type BuilderNodeData } from "@/lib/builderWarnings";
 import type { ValidationIssueWithContext } from "@/lib/validation";
+import { isCoverageComplete, type CoverageReport } from "@/lib/coverage";
+import { toWorkflowGraph, type StoredWorkflow } from "@/lib/workflowStorage";
 
 type WorkflowBuilderProps = {
   moduleId: string;
@@ -39,11 +47,12 @@ type WorkflowBuilderProps = {
       Record<string, { label: string; values: string[]; note?: string }>
     >
   >;
-};
-
-type StoredWorkflow = {
-  nodes: Node<BuilderNodeData>[];
-  edges: Edge[];
+  mergeFieldKeys?: string[];
+  coverage?: CoverageReport | null;
+  workflowOptions?: { value: string; label: string }[];
+  emailStepOptions?: { value: string; label: string }[];
+  // Called with the graph each time the learner's edits are saved.
+  onGraphChange?: (graph: WorkflowGraph) => void;
 };
 
 type BuilderPanel = "palette" | "canvas" | "helper" | "settings" | "fixes";
@@ -65,9 +74,13 @@ type MovePlan = {
 
 const nodeTypes = {
   workflowNode: WorkflowNode,
-  ifElseNode: IfElseNode
+  ifElseNode: IfElseNode,
+  splitNode: SplitNode
 };
 
+const rendererFor = (nodeType: NodeType) =>
+  nodeType === "ifElse" ? "ifElseNode" : nodeType === "split" ? "splitNode" : "workflowNode";
+
 const STORAGE_PREFIX = "ghlwm:workflow:v1:";
 const STALE_MS = 45000;
 
@@ -98,10 +111,16 @@ export const WorkflowBuilder = ({
   onReadyForCheckChange,
   validationIssues,
   onFixNode,
-  expectedFieldHints
+  expectedFieldHints,
+  mergeFieldKeys,
+  coverage,
+  workflowOptions,
+  emailStepOptions = [],
+  onGraphChange
 }: WorkflowBuilderProps) => {
   const [nodes, setNodes, onNodesChange] = useNodesState<BuilderNodeData>([]);
   const [edges, setEdges, onEdgesChange] = useEdgesState([]);
+  const [settings, setSettings] = useState<NonNullable<WorkflowGraph["settings"]>>({});
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
   const [reactFlowInstance, setReactFlowInstance] = useState<any>(null);
   const [ready, setReady] = useState(false);
@@ -127,6 +146,7 @@ export const WorkflowBuilder = ({
       const parsed = JSON.parse(raw) as StoredWorkflow;
       setNodes(parsed.nodes ?? []);
       setEdges(parsed.edges ?? []);
+      setSettings(parsed.settings ?? {});
     }
     setReady(true);
   }, [setEdges, setNodes, storageKey]);
@@ -135,9 +155,10 @@ export const WorkflowBuilder = ({
     if (!ready || typeof window === "undefined") {
       return;
     }
-    const payload: StoredWorkflow = { nodes, edges };
+    const payload: StoredWorkflow = { nodes, edges, settings };
     window.localStorage.setItem(storageKey, JSON.stringify(payload));
-  }, [edges, nodes, ready, storageKey]);
+    onGraphChange?.(toWorkflowGraph(payload));
+  }, [edges, nodes, onGraphChange, ready, settings, storageKey]);
 
   useEffect(() => {
     if (focusNodeId) {
@@ -213,11 +234,15 @@ export const WorkflowBuilder = ({
     const selected = selectedNodeId
       ? nodes.find((node) => node.id === selectedNodeId)
       : null;
-    if (selected && selected.data.nodeType !== "ifElse" && !hasOutgoing(selected.id)) {
+    if (
+      selected &&
+      rendererFor(selected.data.nodeType) === "workflowNode" &&
+      !hasOutgoing(selected.id)
+    ) {
       return selected;
     }
     const candidates = nodes.filter(
-      (node) => node.data.nodeType !== "ifElse" && !hasOutgoing(node.id)
+      (node) => rendererFor(node.data.nodeType) === "workflowNode" && !hasOutgoing(node.id)
     );
     if (!candidates.length) {
       return null;
@@ -247,7 +272,7 @@ export const WorkflowBuilder = ({
         : { x: 200 + nodes.length * 40, y: 120 + nodes.length * 40 });
     const newNode: Node<BuilderNodeData> = {
       id,
-      type: nodeType === "ifElse" ? "ifElseNode" : "workflowNode",
+      type: rendererFor(nodeType),
       position: resolvedPosition,
       data: {
         label: definition.label,
@@ -343,6 +368,20 @@ export const WorkflowBuilder = ({
     return new Map(nodes.map((node) => [node.id, node]));
   }, [nodes]);
 
+  // Email steps in this workflow first, then the ones passed in from sibling workflows.
+  const allEmailStepOptions = useMemo(
+    () => [
+      ...nodes
+        .filter((node) => node.data.nodeType === "email.send")
+        .map((node) => ({
+          value: node.id,
+          label: String(node.data.config?.subject || "") || "Email (no subject yet)"
+        })),
+      ...emailStepOptions
+    ],
+    [emailStepOptions, nodes]
+  );
+
   const edgesBySource = useMemo(() => {
     const map = new Map<string, Edge[]>();
     edges.forEach((edge) => {
@@ -372,6 +411,17 @@ export const WorkflowBuilder = ({
     markActive();
   };
 
+  const handleToggleBreakpoint = (nodeId: string) => {
+    setNodes((current) =>
+      current.map((node) =>
+        node.id === nodeId
+          ? { ...node, data: { ...node.data, breakpoint: !node.data.breakpoint } }
+          : node
+      )
+    );
+    markActive();
+  };
+
   const handleDeleteNode = (nodeId: string) => {
     setNodes((current) => current.filter((node) => node.id !== nodeId));
     setEdges((current) =>
@@ -385,6 +435,29 @@ export const WorkflowBuilder = ({
   };
 
   const warnings = useMemo(() => getBuilderWarnings(nodes, edges), [edges, nodes]);
+  // Coverage comes from the last check, so it only marks steps that still exist.
+  const displayNodes = useMemo(() => {
+    const uncovered = new Set(coverage?.uncoveredNodes.map((item) => item.nodeId));
+    return uncovered.size
+      ? nodes.map((node) =>
+          uncovered.has(node.id) ? { ...node, className: "wf-uncovered" } : node
+        )
+      : nodes;
+  }, [coverage, nodes]);
+
+  const displayEdges = useMemo(() => {
+    const uncovered = new Set(
+      coverage?.uncoveredBranches.map((branch) => `${branch.nodeId}:${branch.handle}`)
+    );
+    return uncovered.size
+      ? edges.map((edge) =>
+          uncovered.has(`${edge.source}:${edge.sourceHandle}`)
+            ? { ...edge, className: "wf-edge-uncovered" }
+            : edge
+        )
+      : edges;
+  }, [coverage, edges]);
+
   const testIssues = useMemo(
     () =>
       (validationIssues ?? []).slice().sort((left, right) => {
@@ -407,7 +480,7 @@ export const WorkflowBuilder = ({
         return null;
       }
       const missing = definition.configFields
-        .filter((field) => field.required)
+        .filter((field) => isFieldRequired(field, node.data.config))
         .filter((field) => isMissingValue(node.data.config[field.key]));
       if (!missing.length) {
         return null;
@@ -418,7 +491,9 @@ export const WorkflowBuilder = ({
 
   const selectedDefinition = selectedNode ? getNodeDefinition(selectedNode.type) : null;
   const selectedRequiredFields =
-    selectedDefinition?.configFields?.filter((field) => field.required) ?? [];
+    selectedDefinition?.configFields?.filter((field) =>
+      isFieldRequired(field, selectedNode?.config)
+    ) ?? [];
   const selectedMissingFields =
     selectedNode && selectedDefinition
       ? selectedRequiredFields.filter((field) =>
@@ -775,9 +850,14 @@ export const WorkflowBuilder = ({
         />
       </div>
         <div className="builder-canvas" onDrop={handleDrop} onDragOver={handleDragOver}>
+          {coverage && !isCoverageComplete(coverage) && (
+            <div className="coverage-hint">
+              Dashed steps and paths did not run in any test case.
+            </div>
+          )}
           <ReactFlow
-            nodes={nodes}
-            edges={edges}
+            nodes={displayNodes}
+            edges={displayEdges}
             onNodesChange={handleNodesChange}
             onEdgesChange={handleEdgesChange}
             onConnect={onConnect}
@@ -858,13 +938,30 @@ export const WorkflowBuilder = ({
               onChange={handleConfigChange}
               focusFieldKey={focusFieldForInspector}
               expectedFieldHints={expectedHintsForNode}
+              mergeFieldKeys={mergeFieldKeys}
+              workflowOptions={workflowOptions}
+              emailStepOptions={allEmailStepOptions}
               onDelete={handleDeleteNode}
+              hasBreakpoint={Boolean(
+                selectedNodeId && nodeById.get(selectedNodeId)?.data.breakpoint
+              )}
+              onToggleBreakpoint={handleToggleBreakpoint}
               onMove={movePlan ? moveStep : undefined}
               canMoveUp={movePlan?.canMoveUp ?? false}
               canMoveDown={movePlan?.canMoveDown ?? false}
               moveDisabledReason={movePlan?.reason ?? null}
             />
           </div>
+          <div className="builder-section" data-section="settings">
+            <div className="section-title">Workflow settings</div>
+            <WorkflowSettingsEditor
+              settings={settings}
+              onChange={(updated) => {
+                setSettings(updated);
+                markActive();
+              }}
+            />
+          </div>
           <div className="builder-section" data-section="fixes">
             <div className="section-title">Things to fix</div>
             {renderTestIssues("top")}
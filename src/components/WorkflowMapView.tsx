@@ -0,0 +1,99 @@
+"use client";
+
+import { useMemo } from "react";
+import ReactFlow, { Background, type Edge, type Node } from "reactflow";
+import "reactflow/dist/style.css";
+
+import {
+  describeWorkflowLink,
+  getLoopLinks,
+  type WorkflowMap
+} from "@/lib/workflowMap";
+
+type WorkflowMapViewProps = {
+  map: WorkflowMap;
+  titles: Record<string, string>;
+  activeWorkflowId?: string;
+  onSelectWorkflow?: (workflowId: string) => void;
+};
+
+export const WorkflowMapView = ({
+  map,
+  titles,
+  activeWorkflowId,
+  onSelectWorkflow
+}: WorkflowMapViewProps) => {
+  const titleOf = (workflowId: string) => titles[workflowId] ?? workflowId;
+
+  const nodes = useMemo<Node[]>(
+    () =>
+      map.workflowIds.map((workflowId, index) => ({
+        id: workflowId,
+        // Every other workflow sits lower so lines running back stay visible.
+        position: { x: index * 240, y: index % 2 === 0 ? 0 : 110 },
+        data: { label: titles[workflowId] ?? workflowId },
+        className: workflowId === activeWorkflowId ? "workflow-map-node--active" : undefined,
+        draggable: false,
+        connectable: false
+      })),
+    [activeWorkflowId, map.workflowIds, titles]
+  );
+
+  const edges = useMemo<Edge[]>(() => {
+    const looping = new Set(getLoopLinks(map).map((link) => `${link.from}>${link.to}`));
+    const grouped = new Map<string, string[]>();
+    map.links.forEach((link) => {
+      const key = `${link.from}>${link.to}`;
+      const labels = grouped.get(key) ?? [];
+      const label = describeWorkflowLink(link);
+      if (!labels.includes(label)) {
+        labels.push(label);
+      }
+      grouped.set(key, labels);
+    });
+    return Array.from(grouped.entries()).map(([key, labels]) => {
+      const [source, target] = key.split(">");
+      return {
+        id: key,
+        source,
+        target,
+        label: labels.join(", "),
+        animated: looping.has(key),
+        className: looping.has(key) ? "workflow-map-edge--loop" : undefined
+      };
+    });
+  }, [map]);
+
+  return (
+    <div className="workflow-map">
+      <div className="section-title">Workflow map</div>
+      <div className="workflow-map-canvas">
+        <ReactFlow
+          nodes={nodes}
+          edges={edges}
+          onNodeClick={(_, node) => onSelectWorkflow?.(node.id)}
+          nodesConnectable={false}
+          fitView
+        >
+          <Background gap={18} size={1} />
+        </ReactFlow>
+      </div>
+      {map.links.length === 0 && (
+        <div className="muted">No workflow starts another yet.</div>
+      )}
+      {map.loops.map((loop) => (
+        <div key={loop.workflowIds.join(">")} className="requirement-item">
+          <span className={`issue-level issue-level--${loop.repeats ? "error" : "warning"}`}>
+            Loop
+          </span>
+          <span className="requirement-text">
+            {[...loop.workflowIds, loop.workflowIds[0]].map(titleOf).join(" → ")}.{" "}
+            {loop.repeats
+              ? "Re-entry is on in each, so the contact goes around until the test run stops it after 3 runs."
+              : "Re-entry is off in at least one, so the contact is skipped when the loop comes back."}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
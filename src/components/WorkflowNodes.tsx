@@ -2,7 +2,8 @@
 
 import { Handle, Position, type NodeProps, useStore } from "reactflow";
 import type { BuilderNodeData } from "@/lib/builderWarnings";
-import type { IfElseConfig } from "@/lib/workflowTypes";
+import type { GoalConfig, IfElseConfig, SplitConfig } from "@/lib/workflowTypes";
+import { describeConditionGroup } from "@/lib/conditions";
 
 export const WorkflowNode = ({ id, data, selected }: NodeProps<BuilderNodeData>) => {
   const isTrigger = data.kind === "trigger";
@@ -12,7 +13,19 @@ export const WorkflowNode = ({ id, data, selected }: NodeProps<BuilderNodeData>)
   return (
     <div className={`wf-node ${selected ? "wf-node--selected" : ""}`}>
       {!isTrigger && <Handle type="target" position={Position.Top} />}
+      {data.breakpoint && <span className="wf-node-breakpoint" title="Breakpoint" />}
       <div className="wf-node-title">{data.label}</div>
+      {data.nodeType === "goal" && (
+        <div className="wf-branch-expression">
+          {describeConditionGroup((data.config as GoalConfig).condition) || "No goal yet"}
+        </div>
+      )}
+      {data.nodeType === "drip" && (
+        <div className="wf-branch-expression">
+          {String(data.config.batchSize ?? "?")} every{" "}
+          {String(data.config.intervalMinutes ?? "?")} min
+        </div>
+      )}
       {isEnd && <div className="wf-node-end">End</div>}
       <Handle type="source" position={Position.Bottom} />
     </div>
@@ -26,12 +39,18 @@ export const IfElseNode = ({ id, data, selected }: NodeProps<BuilderNodeData>) =
   return (
     <div className={`wf-node wf-node--if ${selected ? "wf-node--selected" : ""}`}>
       <Handle type="target" position={Position.Top} />
+      {data.breakpoint && <span className="wf-node-breakpoint" title="Breakpoint" />}
       <div className="wf-node-title">{data.label}</div>
       {!hasOutgoing && <div className="wf-node-end">End</div>}
       <div className="wf-branch-list">
         {config.branches.map((branch) => (
           <div key={branch.id} className="wf-branch">
             <span className="wf-branch-label">{branch.label}</span>
+            {describeConditionGroup(branch.condition) && (
+              <span className="wf-branch-expression">
+                {describeConditionGroup(branch.condition)}
+              </span>
+            )}
             <Handle
               type="source"
               position={Position.Right}
@@ -50,3 +69,34 @@ export const IfElseNode = ({ id, data, selected }: NodeProps<BuilderNodeData>) =
     </div>
   );
 };
+
+export const SplitNode = ({ id, data, selected }: NodeProps<BuilderNodeData>) => {
+  const config = data.config as SplitConfig;
+  const edges = useStore((state) => state.edges);
+  const hasOutgoing = edges.some((edge) => edge.source === id);
+  const total = config.paths.reduce((sum, path) => sum + Math.max(path.weight, 0), 0);
+  return (
+    <div className={`wf-node wf-node--if ${selected ? "wf-node--selected" : ""}`}>
+      <Handle type="target" position={Position.Top} />
+      {data.breakpoint && <span className="wf-node-breakpoint" title="Breakpoint" />}
+      <div className="wf-node-title">{data.label}</div>
+      {!hasOutgoing && <div className="wf-node-end">End</div>}
+      <div className="wf-branch-list">
+        {config.paths.map((path) => (
+          <div key={path.id} className="wf-branch">
+            <span className="wf-branch-label">{path.label}</span>
+            <span className="wf-branch-expression">
+              {total ? Math.round((Math.max(path.weight, 0) / total) * 100) : 0}%
+            </span>
+            <Handle
+              type="source"
+              position={Position.Right}
+              id={`path-${path.id}`}
+              className="wf-branch-handle"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
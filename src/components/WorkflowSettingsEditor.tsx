@@ -0,0 +1,97 @@
+"use client";
+
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+
+type WorkflowSettings = NonNullable<WorkflowGraph["settings"]>;
+
+type WorkflowSettingsEditorProps = {
+  settings: WorkflowSettings;
+  onChange: (settings: WorkflowSettings) => void;
+};
+
+const DEFAULT_QUIET_HOURS = { start: "21:00", end: "08:00" };
+
+export const WorkflowSettingsEditor = ({ settings, onChange }: WorkflowSettingsEditorProps) => {
+  const quietHours = settings.quietHours;
+
+  return (
+    <div className="inspector-fields">
+      <label className="field">
+        <span className="field-label">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.allowReentry)}
+            onChange={(event) => onChange({ ...settings, allowReentry: event.target.checked })}
+          />{" "}
+          Allow re-entry
+        </span>
+        <span className="field-helper">
+          Off: a contact who is in (or finished) this workflow is not enrolled again.
+        </span>
+      </label>
+      <label className="field">
+        <span className="field-label">
+          <input
+            type="checkbox"
+            checked={Boolean(settings.stopOnResponse)}
+            onChange={(event) => onChange({ ...settings, stopOnResponse: event.target.checked })}
+          />{" "}
+          Stop on response
+        </span>
+        <span className="field-helper">
+          When the contact replies, waiting steps in this workflow are cancelled.
+        </span>
+      </label>
+      <label className="field">
+        <span className="field-label">
+          <input
+            type="checkbox"
+            checked={Boolean(quietHours)}
+            onChange={(event) =>
+              onChange({
+                ...settings,
+                quietHours: event.target.checked ? DEFAULT_QUIET_HOURS : undefined
+              })
+            }
+          />{" "}
+          Quiet hours
+        </span>
+        <span className="field-helper">
+          SMS and email steps wait until quiet hours end before sending.
+        </span>
+      </label>
+      {quietHours && (
+        <div className="ifelse-row">
+          <label className="field">
+            <span className="field-label">Start</span>
+            <input
+              className="text-input"
+              type="time"
+              value={quietHours.start}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  quietHours: { ...quietHours, start: event.target.value }
+                })
+              }
+            />
+          </label>
+          <label className="field">
+            <span className="field-label">End</span>
+            <input
+              className="text-input"
+              type="time"
+              value={quietHours.end}
+              onChange={(event) =>
+                onChange({
+                  ...settings,
+                  quietHours: { ...quietHours, end: event.target.value }
+                })
+              }
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import type {
+  ConditionGroup,
+  ConditionRule,
+  IfElseBranch,
+  WorkflowGraph,
+  WorkflowNode
+} from "@/lib/workflowTypes";
+import { analyzeIfElseBranches } from "@/lib/branchAnalysis";
+import { enumerateWorkflowPaths } from "@/lib/pathEnumeration";
+import { line, node } from "@/lib/testFixtures";
+
+const all = (...rules: ConditionRule[]): ConditionGroup => ({ anyAll: "all", rules });
+
+const branch = (id: string, condition: ConditionGroup): IfElseBranch => ({
+  id,
+  label: id,
+  condition
+});
+
+const ifElse = (id: string, branches: IfElseBranch[]) =>
+  node(id, "ifElse", "logic", { elseEnabled: true, branches });
+
+// Trigger → [steps...] → the If/Else under test, with every exit going to Stop.
+const workflow = (steps: WorkflowNode[], check: WorkflowNode): WorkflowGraph => {
+  const chain = [node("trigger", "contact.created", "trigger"), ...steps, check];
+  const branches = (check.config.branches as IfElseBranch[]).map((item) => `branch-${item.id}`);
+  return {
+    nodes: [...chain, node("stop", "stop", "logic")],
+    edges: [
+      ...chain.slice(1).map((item, index) => line(chain[index].id, item.id)),
+      ...[...branches, "else"].map((handle) => line(check.id, "stop", handle))
+    ]
+  };
+};
+
+const kinds = (graph: WorkflowGraph, options = {}) =>
+  analyzeIfElseBranches(graph, options).map((finding) => [finding.branchId, finding.kind]);
+
+const vip = { type: "tagExists", tag: "vip" } as const;
+const notVip = { type: "tagNotExists", tag: "vip" } as const;
+
+describe("analyzeIfElseBranches", () => {
+  it("finds empty, contradictory and shadowed branches on one If/Else", () => {
+    const graph = workflow(
+      [],
+      ifElse("check", [
+        branch("empty", all()),
+        branch("mixed", all(vip, notVip)),
+        branch("face", all({ type: "fieldContains", fieldKey: "source", value: "face" })),
+        branch("facebook", all({ type: "fieldEquals", fieldKey: "source", value: "Facebook" }))
+      ])
+    );
+    expect(kinds(graph)).toEqual([
+      ["empty", "empty"],
+      ["mixed", "contradiction"],
+      ["facebook", "shadowed"]
+    ]);
+    expect(analyzeIfElseBranches(graph)[2].cause?.branchLabel).toBe("face");
+  });
+
+  it("rules out a branch an earlier tag step decided", () => {
+    const graph = workflow(
+      [node("tag", "tag.add", "action", { tag: "vip" })],
+      ifElse("check", [branch("new", all(notVip))])
+    );
+    const [finding] = analyzeIfElseBranches(graph);
+    expect(finding).toMatchObject({ kind: "ruledOut", cause: { nodeId: "tag" } });
+  });
+
+  it("forgets earlier facts after a Wait and when another workflow changes the tag", () => {
+    const tag = node("tag", "tag.add", "action", { tag: "vip" });
+    const check = ifElse("check", [branch("new", all(notVip))]);
+    const wait = node("wait", "wait.duration", "logic", { durationSeconds: 60 });
+    expect(kinds(workflow([tag, wait], check))).toEqual([]);
+
+    const remover: WorkflowGraph = {
+      nodes: [node("remove", "tag.remove", "action", { tag: "vip" })],
+      edges: []
+    };
+    expect(kinds(workflow([tag], check), { otherGraphs: [remover] })).toEqual([]);
+  });
+
+  it("rules nothing out when the path listing was cut off", () => {
+    const graph = workflow(
+      [node("tag", "tag.add", "action", { tag: "vip" })],
+      ifElse("check", [branch("new", all(notVip))])
+    );
+    expect(kinds(graph, { paths: enumerateWorkflowPaths(graph, 1) })).toEqual([]);
+  });
+
+  it("notes a field no contact or step sets only when given the set fields", () => {
+    const typo = all({ type: "fieldEquals", fieldKey: "lead_sorce", value: "x" });
+    const graph = workflow([], ifElse("check", [branch("typo", typo)]));
+    expect(kinds(graph)).toEqual([]);
+    expect(kinds(graph, { setFieldKeys: new Set(["lead_source"]) })).toEqual([
+      ["typo", "fieldNeverSet"]
+    ]);
+  });
+
+  it("reports a branch with several options by its least certain one", () => {
+    const either: ConditionGroup = {
+      anyAll: "any",
+      rules: [],
+      groups: [all(vip, notVip), all({ type: "fieldEquals", fieldKey: "nope", value: "1" })]
+    };
+    const graph = workflow([], ifElse("check", [branch("either", either)]));
+    expect(kinds(graph, { setFieldKeys: new Set<string>() })).toEqual([
+      ["either", "fieldNeverSet"]
+    ]);
+  });
+});
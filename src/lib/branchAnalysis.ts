@@ -0,0 +1,475 @@
+import type {
+  ConditionGroup,
+  ConditionRule,
+  IfElseConfig,
+  NodeType,
+  WorkflowGraph,
+  WorkflowNode
+} from "@/lib/workflowTypes";
+import type { Scenario } from "@/lib/scenarioTypes";
+import { isConditionGroupEmpty } from "@/lib/conditions";
+import {
+  enumerateWorkflowPaths,
+  type PathEnumeration,
+  type WorkflowPathStep
+} from "@/lib/pathEnumeration";
+
+export type BranchFindingKind =
+  | "empty"
+  | "contradiction"
+  | "shadowed"
+  | "ruledOut"
+  | "fieldNeverSet";
+
+// The step that makes a branch impossible: an earlier branch, or a tag step.
+export type BranchCause = {
+  nodeId: string;
+  nodeType: NodeType;
+  branchLabel?: string;
+  // Whether the contact took that branch (true) or skipped it (false).
+  matched?: boolean;
+  rule?: ConditionRule;
+};
+
+export type BranchFinding = {
+  kind: BranchFindingKind;
+  nodeId: string;
+  branchId: string;
+  branchLabel: string;
+  rules?: ConditionRule[];
+  cause?: BranchCause;
+  fieldKey?: string;
+};
+
+export type BranchAnalysisOptions = {
+  // Other workflows in the bundle; facts about what they change are not trusted.
+  otherGraphs?: WorkflowGraph[];
+  // Fields some test contact or step sets. Omit to skip the unset-field check.
+  setFieldKeys?: Set<string>;
+  // Routes through `graph`, when the caller already listed them.
+  paths?: PathEnumeration;
+};
+
+type Literal = { rule: ConditionRule; holds: boolean; cause: BranchCause };
+
+type Reason = Omit<BranchFinding, "nodeId" | "branchId" | "branchLabel">;
+
+// Branch rules are expanded into "any of these all-rule sets"; past this size
+// the branch is too tangled to reason about and is left alone.
+const MAX_DISJUNCTS = 32;
+
+const DELAY_NODE_TYPES: NodeType[] = ["wait.duration", "wait.untilTime", "goal", "drip"];
+
+// Time can pass at these steps, so events may change the contact meanwhile.
+const isDelay = (graph: WorkflowGraph, node: WorkflowNode) =>
+  DELAY_NODE_TYPES.includes(node.type) ||
+  ((node.type === "sms.send" || node.type === "email.send") &&
+    Boolean(graph.settings?.quietHours));
+
+const ruleKey = (rule: ConditionRule) =>
+  "tag" in rule
+    ? `tag:${rule.tag}`
+    : rule.type === "appointmentStatusIs"
+      ? "appointment"
+      : `field:${rule.fieldKey}`;
+
+const writeKey = (node: WorkflowNode) => {
+  if (node.type === "tag.add" || node.type === "tag.remove" || node.type === "tag.toggle") {
+    return `tag:${String(node.config?.tag ?? "")}`;
+  }
+  if (node.type === "field.update" || node.type === "field.increment" || node.type === "field.clear") {
+    return `field:${String(node.config?.fieldKey ?? "")}`;
+  }
+  return null;
+};
+
+// Mirrors how the simulator reads "true" and "false" typed into a rule.
+const normalizeValue = (value: unknown) =>
+  value === "true" ? true : value === "false" ? false : value;
+
+const hasText = (value: unknown) =>
+  value !== undefined && value !== null && String(value).length > 0;
+
+/**
+ * Evaluates a rule against a field known to hold one value, matching the
+ * simulator. Returns null for rules the value alone cannot decide.
+ */
+const evaluateOnValue = (rule: ConditionRule, value: unknown): boolean | null => {
+  switch (rule.type) {
+    case "fieldExists":
+      return hasText(value);
+    case "isEmpty":
+      return !hasText(value);
+    case "fieldEquals":
+      return value === normalizeValue(rule.value);
+    case "fieldNotEquals":
+      return value !== normalizeValue(rule.value);
+    case "fieldContains":
+    case "fieldStartsWith": {
+      if (value === undefined || value === null) {
+        return false;
+      }
+      const haystack = String(value).toLowerCase();
+      const needle = String(rule.value ?? "").toLowerCase();
+      return rule.type === "fieldContains" ? haystack.includes(needle) : haystack.startsWith(needle);
+    }
+    case "greaterThan":
+    case "lessThan": {
+      const actual = Number(value);
+      if (!hasText(value) || Number.isNaN(actual)) {
+        return false;
+      }
+      return rule.type === "greaterThan" ? actual > rule.value : actual < rule.value;
+    }
+    default:
+      return null;
+  }
+};
+
+// Field rules that can only be true when the field holds something.
+const needsFieldValue = (rule: ConditionRule) =>
+  "fieldKey" in rule && rule.type !== "isEmpty" && rule.type !== "fieldNotEquals";
+
+/** True when every contact meeting `a` also meets `b`. */
+const implies = (a: ConditionRule, b: ConditionRule): boolean => {
+  if (JSON.stringify(a) === JSON.stringify(b)) {
+    return true;
+  }
+  if (ruleKey(a) !== ruleKey(b)) {
+    return false;
+  }
+  if (a.type === "fieldEquals") {
+    return evaluateOnValue(b, normalizeValue(a.value)) === true;
+  }
+  if (b.type === "fieldExists") {
+    return (
+      a.type === "greaterThan" ||
+      a.type === "lessThan" ||
+      a.type === "dateBefore" ||
+      a.type === "dateAfter" ||
+      ((a.type === "fieldContains" || a.type === "fieldStartsWith") && a.value.length > 0)
+    );
+  }
+  if (a.type === "isEmpty" && b.type === "fieldNotEquals") {
+    return hasText(normalizeValue(b.value));
+  }
+  if (a.type === "greaterThan" && b.type === "greaterThan") {
+    return a.value >= b.value;
+  }
+  if (a.type === "lessThan" && b.type === "lessThan") {
+    return a.value <= b.value;
+  }
+  if (a.type === "dateBefore" && b.type === "dateBefore") {
+    return a.daysAgo >= b.daysAgo;
+  }
+  if (a.type === "dateAfter" && b.type === "dateAfter") {
+    return a.daysAgo <= b.daysAgo;
+  }
+  if (
+    (a.type === "fieldContains" || a.type === "fieldStartsWith") &&
+    (b.type === "fieldContains" || b.type === "fieldStartsWith")
+  ) {
+    const outer = a.value.toLowerCase();
+    const inner = b.value.toLowerCase();
+    return b.type === "fieldContains"
+      ? outer.includes(inner)
+      : a.type === "fieldStartsWith" && outer.startsWith(inner);
+  }
+  return false;
+};
+
+/** True when no contact can meet `a` and `b` at the same time. */
+const contradicts = (a: ConditionRule, b: ConditionRule): boolean => {
+  if (ruleKey(a) !== ruleKey(b)) {
+    return false;
+  }
+  if (a.type === "fieldEquals") {
+    return evaluateOnValue(b, normalizeValue(a.value)) === false;
+  }
+  if (b.type === "fieldEquals") {
+    return evaluateOnValue(a, normalizeValue(b.value)) === false;
+  }
+  const pair = (x: ConditionRule["type"], y: ConditionRule["type"]) =>
+    (a.type === x && b.type === y) || (a.type === y && b.type === x);
+  if (pair("tagExists", "tagNotExists")) {
+    return true;
+  }
+  if (a.type === "isEmpty" || b.type === "isEmpty") {
+    const other = a.type === "isEmpty" ? b : a;
+    return implies(other, { type: "fieldExists", fieldKey: (other as { fieldKey: string }).fieldKey });
+  }
+  if (a.type === "greaterThan" && b.type === "lessThan") {
+    return b.value <= a.value;
+  }
+  if (a.type === "lessThan" && b.type === "greaterThan") {
+    return a.value <= b.value;
+  }
+  if (a.type === "appointmentStatusIs" && b.type === "appointmentStatusIs") {
+    return a.status !== b.status;
+  }
+  return false;
+};
+
+/**
+ * Expands a condition into "any of these all-rule sets", matching how the
+ * simulator skips empty nested groups. An empty result never matches; null
+ * means the expansion grew too large.
+ */
+const toDisjuncts = (group: ConditionGroup): ConditionRule[][] | null => {
+  const children: (ConditionRule[][] | null)[] = [
+    ...group.rules.map((rule) => [[rule]]),
+    ...(group.groups ?? []).filter((child) => !isConditionGroupEmpty(child)).map(toDisjuncts)
+  ];
+  if (children.some((child) => child === null)) {
+    return null;
+  }
+  const expanded = children as ConditionRule[][][];
+  if (!expanded.length) {
+    return [];
+  }
+  if (group.anyAll === "any") {
+    const merged = expanded.flat();
+    return merged.length > MAX_DISJUNCTS ? null : merged;
+  }
+  let product: ConditionRule[][] = [[]];
+  for (const child of expanded) {
+    product = product.flatMap((left) => child.map((right) => [...left, ...right]));
+    if (product.length > MAX_DISJUNCTS) {
+      return null;
+    }
+  }
+  return product;
+};
+
+// True when every contact meeting all of `rules` also meets `group`.
+const meetsGroup = (rules: ConditionRule[], group: ConditionGroup): boolean => {
+  const checks = [
+    ...group.rules.map((rule) => rules.some((known) => implies(known, rule))),
+    ...(group.groups ?? [])
+      .filter((child) => !isConditionGroupEmpty(child))
+      .map((child) => meetsGroup(rules, child))
+  ];
+  if (!checks.length) {
+    return false;
+  }
+  return group.anyAll === "all" ? checks.every(Boolean) : checks.some(Boolean);
+};
+
+/**
+ * Collects what must be true about the contact when it reaches the end of
+ * `steps`: the rules of branches it took and of single-rule branches it
+ * skipped, plus tags it was given or lost. Facts are dropped when a step
+ * changes the same tag or field, and all facts are dropped after a wait.
+ */
+const collectFacts = (
+  graph: WorkflowGraph,
+  steps: WorkflowPathStep[],
+  untrusted: Set<string>
+) => {
+  let facts: Literal[] = [];
+  const add = (literal: Literal) => {
+    if (!untrusted.has(ruleKey(literal.rule))) {
+      facts.push(literal);
+    }
+  };
+  steps.forEach((step) => {
+    const node = graph.nodes.find((item) => item.id === step.nodeId);
+    if (!node) {
+      return;
+    }
+    if (isDelay(graph, node)) {
+      facts = [];
+      return;
+    }
+    const written = writeKey(node);
+    if (written) {
+      facts = facts.filter((fact) => ruleKey(fact.rule) !== written);
+      const tag = String(node.config?.tag ?? "");
+      if (node.type === "tag.add" || node.type === "tag.remove") {
+        add({
+          rule: { type: node.type === "tag.add" ? "tagExists" : "tagNotExists", tag },
+          holds: true,
+          cause: { nodeId: node.id, nodeType: node.type }
+        });
+      }
+      return;
+    }
+    const branch = step.branch;
+    if (!branch || branch.nodeType !== "ifElse") {
+      return;
+    }
+    const taken = branch.condition ? toDisjuncts(branch.condition) : null;
+    if (taken?.length === 1) {
+      taken[0].forEach((rule) =>
+        add({
+          rule,
+          holds: true,
+          cause: {
+            nodeId: node.id,
+            nodeType: node.type,
+            branchLabel: branch.label,
+            matched: true,
+            rule
+          }
+        })
+      );
+    }
+    branch.excluded.forEach((skipped) => {
+      // A skipped branch did not match, so each of its single-rule options is false.
+      (toDisjuncts(skipped.condition) ?? [])
+        .filter((rules) => rules.length === 1)
+        .forEach(([rule]) =>
+          add({
+            rule,
+            holds: false,
+            cause: {
+              nodeId: node.id,
+              nodeType: node.type,
+              branchLabel: skipped.label,
+              matched: false,
+              rule
+            }
+          })
+        );
+    });
+  });
+  return facts;
+};
+
+const findConflict = (rules: ConditionRule[], facts: Literal[]) =>
+  facts.find((fact) =>
+    rules.some((rule) => (fact.holds ? contradicts(rule, fact.rule) : implies(rule, fact.rule)))
+  );
+
+/**
+ * Collects the fields some test contact starts with or some step sets, for
+ * the unset-field check.
+ */
+export const collectSetFieldKeys = (scenarios: Scenario[], graphs: WorkflowGraph[]) => {
+  const keys = new Set<string>();
+  const addFields = (fields?: Record<string, unknown>) =>
+    Object.entries(fields ?? {}).forEach(([fieldKey, value]) => {
+      if (value !== undefined && value !== null) {
+        keys.add(fieldKey);
+      }
+    });
+  scenarios.forEach((scenario) =>
+    scenario.testCases.forEach((testCase) => {
+      addFields(testCase.initialState.fields);
+      testCase.contacts?.forEach((contact) => addFields(contact.initialState?.fields));
+    })
+  );
+  graphs.forEach((graph) =>
+    graph.nodes
+      .filter((node) => node.type === "field.update" || node.type === "field.increment")
+      .forEach((node) => {
+        if (typeof node.config?.fieldKey === "string" && node.config.fieldKey.trim()) {
+          keys.add(node.config.fieldKey.trim());
+        }
+      })
+  );
+  return keys;
+};
+
+/**
+ * Finds If/Else branches no contact can take. Within one If/Else, branches
+ * are checked top to bottom and the first match wins, so a branch whose rules
+ * already meet an earlier branch is shadowed by it. Across steps, each route to
+ * the If/Else carries what earlier branches decided; when every route has
+ * ruled the branch out, the earlier step is reported as the cause.
+ * Reports at most one finding per branch.
+ */
+export const analyzeIfElseBranches = (
+  graph: WorkflowGraph,
+  options: BranchAnalysisOptions = {}
+): BranchFinding[] => {
+  const untrusted = new Set(
+    (options.otherGraphs ?? []).flatMap((other) =>
+      other.nodes.map(writeKey).filter((key): key is string => Boolean(key))
+    )
+  );
+  const { paths, truncated } = options.paths ?? enumerateWorkflowPaths(graph);
+  const findings: BranchFinding[] = [];
+
+  graph.nodes
+    .filter((node) => node.type === "ifElse")
+    .forEach((node) => {
+      const branches = (node.config as IfElseConfig).branches ?? [];
+      const routes = paths.flatMap((path) => {
+        const index = path.steps.findIndex((step) => step.nodeId === node.id);
+        return index < 0 ? [] : [{ path, index }];
+      });
+      // A loop can bring the contact back here in a different state, so only
+      // routes that pass through once are compared. A cut-off listing may miss
+      // a route, so nothing is ruled out then.
+      const revisited = routes.some(
+        ({ path, index }) =>
+          path.end === "loop" &&
+          path.steps.findIndex((step) => step.nodeId === path.loopsTo) <= index
+      );
+      const routeFacts =
+        revisited || truncated
+          ? []
+          : routes.map(({ path, index }) =>
+              collectFacts(graph, path.steps.slice(0, index), untrusted)
+            );
+
+      const explainDisjunct = (rules: ConditionRule[], earlier: typeof branches): Reason | null => {
+        for (let i = 0; i < rules.length; i += 1) {
+          for (let j = i + 1; j < rules.length; j += 1) {
+            if (contradicts(rules[i], rules[j])) {
+              return { kind: "contradiction", rules: [rules[i], rules[j]] };
+            }
+          }
+        }
+        const shadow = earlier.find((branch) => meetsGroup(rules, branch.condition));
+        if (shadow) {
+          return {
+            kind: "shadowed",
+            cause: { nodeId: node.id, nodeType: node.type, branchLabel: shadow.label }
+          };
+        }
+        const conflicts = routeFacts.map((facts) => findConflict(rules, facts));
+        if (conflicts.length && conflicts.every(Boolean)) {
+          return { kind: "ruledOut", cause: conflicts[0]!.cause };
+        }
+        const unset = options.setFieldKeys
+          ? rules.find(
+              (rule) =>
+                needsFieldValue(rule) &&
+                "fieldKey" in rule &&
+                !options.setFieldKeys!.has(rule.fieldKey)
+            )
+          : undefined;
+        if (unset && "fieldKey" in unset) {
+          return { kind: "fieldNeverSet", fieldKey: unset.fieldKey };
+        }
+        return null;
+      };
+
+      branches.forEach((branch, index) => {
+        const base = { nodeId: node.id, branchId: branch.id, branchLabel: branch.label };
+        if (isConditionGroupEmpty(branch.condition)) {
+          findings.push({ ...base, kind: "empty" });
+          return;
+        }
+        const disjuncts = toDisjuncts(branch.condition);
+        if (!disjuncts?.length) {
+          return;
+        }
+        const reasons = disjuncts.map((rules) =>
+          explainDisjunct(rules, branches.slice(0, index))
+        );
+        if (reasons.every(Boolean)) {
+          // The branch is only as dead as its least certain option.
+          const weakest =
+            reasons.find((reason) => reason!.kind === "fieldNeverSet") ??
+            reasons.find((reason) => reason!.kind === "ruledOut") ??
+            reasons[0];
+          findings.push({ ...base, ...weakest! });
+        }
+      });
+    });
+
+  return findings;
+};
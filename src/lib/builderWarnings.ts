@@ -1,12 +1,20 @@
 import type { Edge, Node } from "reactflow";
-import type { IfElseConfig, NodeKind, NodeType } from "@/lib/workflowTypes";
-import { getNodeDefinition } from "@/lib/nodeCatalog";
+import type {
+  GoalConfig,
+  IfElseConfig,
+  NodeKind,
+  NodeType,
+  SplitConfig
+} from "@/lib/workflowTypes";
+import { getNodeDefinition, isFieldRequired } from "@/lib/nodeCatalog";
+import { isConditionGroupEmpty } from "@/lib/conditions";
 
 export type BuilderNodeData = {
   label: string;
   nodeType: NodeType;
   kind: NodeKind;
   config: Record<string, unknown>;
+  breakpoint?: boolean;
 };
 
 export type BuilderWarning = {
@@ -60,7 +68,8 @@ export const getBuilderWarnings = (
 
     if (definition?.configFields) {
       definition.configFields.forEach((field) => {
-        if (field.required && isMissingValue(node.data.config[field.key])) {
+        const value = node.data.config[field.key];
+        if (isFieldRequired(field, node.data.config) && isMissingValue(value)) {
           warnings.push({
             id: `${node.id}-missing-${field.key}`,
             level: "error",
@@ -72,6 +81,37 @@ export const getBuilderWarnings = (
       });
     }
 
+    if (node.data.nodeType === "goal") {
+      const condition = (node.data.config as GoalConfig).condition;
+      if (!condition || isConditionGroupEmpty(condition)) {
+        warnings.push({
+          id: `${node.id}-goal-condition`,
+          level: "error",
+          nodeId: node.id,
+          message: "Goal Event has no goal yet.",
+          next: "Open Step settings and add a rule, like has tag status:booked."
+        });
+      }
+    }
+
+    if (node.data.nodeType === "split") {
+      const config = node.data.config as SplitConfig;
+      config.paths.forEach((path) => {
+        const hasPathEdge = edges.some(
+          (edge) => edge.source === node.id && edge.sourceHandle === `path-${path.id}`
+        );
+        if (!hasPathEdge) {
+          warnings.push({
+            id: `${node.id}-${path.id}-path`,
+            level: "warning",
+            nodeId: node.id,
+            message: `Split path "${path.label}" has no next step yet.`,
+            next: "Connect that path to the next step."
+          });
+        }
+      });
+    }
+
     if (node.data.nodeType === "ifElse") {
       const config = node.data.config as IfElseConfig;
       config.branches.forEach((branch) => {
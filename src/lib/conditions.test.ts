@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  CONDITION_OPERATORS,
+  createRule,
+  describeConditionGroup,
+  describeRule,
+  flattenConditionRules,
+  isConditionGroupEmpty,
+  isConditionOperator
+} from "@/lib/conditions";
+import type { ConditionGroup } from "@/lib/workflowTypes";
+
+describe("condition operators", () => {
+  it("creates an empty rule of each operator's shape", () => {
+    expect(createRule("fieldStartsWith")).toEqual({
+      type: "fieldStartsWith",
+      fieldKey: "",
+      value: ""
+    });
+    expect(createRule("lessThan")).toEqual({ type: "lessThan", fieldKey: "", value: 0 });
+    expect(createRule("dateAfter")).toEqual({ type: "dateAfter", fieldKey: "", daysAgo: 0 });
+    CONDITION_OPERATORS.forEach((operator) =>
+      expect(createRule(operator.type).type).toBe(operator.type)
+    );
+  });
+
+  it("describes rules the way learners read them", () => {
+    expect(describeRule({ type: "fieldNotEquals", fieldKey: "source", value: "Google" })).toBe(
+      "source is not Google"
+    );
+    expect(describeRule({ type: "dateBefore", fieldKey: "last_visit", daysAgo: 30 })).toBe(
+      "last_visit is before 30 days ago"
+    );
+    expect(describeRule({ type: "appointmentStatusIs", status: "noShow" })).toBe(
+      "appointment is no-show"
+    );
+  });
+
+  it("recognizes operator names from scenario files", () => {
+    expect(isConditionOperator("greaterThan")).toBe(true);
+    expect(isConditionOperator("between")).toBe(false);
+  });
+});
+
+describe("nested condition groups", () => {
+  // Tagged AND (source is Facebook OR source is Google), with an empty group left over.
+  const group: ConditionGroup = {
+    anyAll: "all",
+    rules: [{ type: "tagExists", tag: "lead" }],
+    groups: [
+      {
+        anyAll: "any",
+        rules: [
+          { type: "fieldEquals", fieldKey: "source", value: "Facebook" },
+          { type: "fieldEquals", fieldKey: "source", value: "Google" }
+        ]
+      },
+      { anyAll: "all", rules: [] }
+    ]
+  };
+
+  it("describes inner groups in brackets and leaves out empty ones", () => {
+    expect(describeConditionGroup(group)).toBe(
+      "has tag lead AND (source = Facebook OR source = Google)"
+    );
+  });
+
+  it("reads rules from every level", () => {
+    expect(flattenConditionRules(group)).toHaveLength(3);
+    expect(isConditionGroupEmpty({ anyAll: "any", rules: [], groups: [group.groups![1]] })).toBe(
+      true
+    );
+  });
+});
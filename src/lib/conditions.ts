@@ -0,0 +1,126 @@
+import type { AppointmentStatus, ConditionGroup, ConditionRule } from "@/lib/workflowTypes";
+
+export type ConditionOperator = ConditionRule["type"];
+
+export type ConditionOperatorInput =
+  | "tag"
+  | "field"
+  | "text"
+  | "number"
+  | "days"
+  | "appointmentStatus";
+
+export type ConditionOperatorDefinition = {
+  type: ConditionOperator;
+  label: string;
+  input: ConditionOperatorInput;
+};
+
+export const MAX_CONDITION_DEPTH = 2;
+
+export const CONDITION_OPERATORS: ConditionOperatorDefinition[] = [
+  { type: "tagExists", label: "Tag exists", input: "tag" },
+  { type: "tagNotExists", label: "Tag does not exist", input: "tag" },
+  { type: "fieldExists", label: "Field exists", input: "field" },
+  { type: "isEmpty", label: "Field is empty", input: "field" },
+  { type: "fieldEquals", label: "Field equals", input: "text" },
+  { type: "fieldNotEquals", label: "Field does not equal", input: "text" },
+  { type: "fieldContains", label: "Field contains", input: "text" },
+  { type: "fieldStartsWith", label: "Field starts with", input: "text" },
+  { type: "greaterThan", label: "Number greater than", input: "number" },
+  { type: "lessThan", label: "Number less than", input: "number" },
+  { type: "dateBefore", label: "Date before N days ago", input: "days" },
+  { type: "dateAfter", label: "Date after N days ago", input: "days" },
+  { type: "appointmentStatusIs", label: "Appointment status is", input: "appointmentStatus" }
+];
+
+export const APPOINTMENT_STATUSES: { value: AppointmentStatus; label: string }[] = [
+  { value: "scheduled", label: "Scheduled" },
+  { value: "rescheduled", label: "Rescheduled" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "noShow", label: "No-show" }
+];
+
+export const getAppointmentStatusLabel = (status: AppointmentStatus) =>
+  APPOINTMENT_STATUSES.find((item) => item.value === status)?.label ?? status;
+
+const operatorMap = new Map(CONDITION_OPERATORS.map((operator) => [operator.type, operator]));
+
+export const getConditionOperator = (type: ConditionOperator) => operatorMap.get(type);
+
+export const isConditionOperator = (type: string): type is ConditionOperator =>
+  operatorMap.has(type as ConditionOperator);
+
+export const createRule = (type: ConditionOperator): ConditionRule => {
+  switch (type) {
+    case "tagExists":
+    case "tagNotExists":
+      return { type, tag: "" };
+    case "fieldExists":
+    case "isEmpty":
+      return { type, fieldKey: "" };
+    case "fieldEquals":
+    case "fieldNotEquals":
+    case "fieldContains":
+    case "fieldStartsWith":
+      return { type, fieldKey: "", value: "" };
+    case "greaterThan":
+    case "lessThan":
+      return { type, fieldKey: "", value: 0 };
+    case "dateBefore":
+    case "dateAfter":
+      return { type, fieldKey: "", daysAgo: 0 };
+    case "appointmentStatusIs":
+      return { type, status: "cancelled" };
+  }
+};
+
+export const describeRule = (rule: ConditionRule) => {
+  switch (rule.type) {
+    case "tagExists":
+      return `has tag ${rule.tag}`;
+    case "tagNotExists":
+      return `does not have tag ${rule.tag}`;
+    case "fieldExists":
+      return `${rule.fieldKey} has a value`;
+    case "isEmpty":
+      return `${rule.fieldKey} is empty`;
+    case "fieldEquals":
+      return `${rule.fieldKey} = ${String(rule.value)}`;
+    case "fieldNotEquals":
+      return `${rule.fieldKey} is not ${String(rule.value)}`;
+    case "fieldContains":
+      return `${rule.fieldKey} contains "${rule.value}"`;
+    case "fieldStartsWith":
+      return `${rule.fieldKey} starts with "${rule.value}"`;
+    case "greaterThan":
+      return `${rule.fieldKey} > ${rule.value}`;
+    case "lessThan":
+      return `${rule.fieldKey} < ${rule.value}`;
+    case "dateBefore":
+      return `${rule.fieldKey} is before ${rule.daysAgo} days ago`;
+    case "dateAfter":
+      return `${rule.fieldKey} is after ${rule.daysAgo} days ago`;
+    case "appointmentStatusIs":
+      return `appointment is ${getAppointmentStatusLabel(rule.status).toLowerCase()}`;
+  }
+};
+
+export const flattenConditionRules = (group: ConditionGroup): ConditionRule[] => [
+  ...group.rules,
+  ...(group.groups ?? []).flatMap(flattenConditionRules)
+];
+
+export const isConditionGroupEmpty = (group: ConditionGroup) =>
+  flattenConditionRules(group).length === 0;
+
+export const describeConditionGroup = (group: ConditionGroup, nested = false): string => {
+  const parts = [
+    ...group.rules.map(describeRule),
+    ...(group.groups ?? [])
+      .filter((child) => !isConditionGroupEmpty(child))
+      .map((child) => describeConditionGroup(child, true))
+  ];
+  const text = parts.join(group.anyAll === "all" ? " AND " : " OR ");
+  return nested && parts.length > 1 ? `(${text})` : text;
+};
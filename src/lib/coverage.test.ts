@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import type { ScenarioTestCase } from "@/lib/scenarioTypes";
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+import { isCoverageComplete, runCoverage } from "@/lib/coverage";
+import { line, node } from "@/lib/testFixtures";
+
+const graph: WorkflowGraph = {
+  nodes: [
+    node("trigger", "contact.created", "trigger"),
+    node("check", "ifElse", "logic", {
+      elseEnabled: true,
+      branches: [
+        {
+          id: "vip",
+          label: "VIP",
+          condition: { anyAll: "all", rules: [{ type: "tagExists", tag: "vip" }] }
+        }
+      ]
+    }),
+    node("sms", "sms.send", "action", { body: "Welcome back" }),
+    node("email", "email.send", "action", { subject: "Welcome", body: "Hi" })
+  ],
+  edges: [
+    line("trigger", "check"),
+    line("check", "sms", "branch-vip"),
+    line("check", "email", "else")
+  ]
+};
+
+const contact = (name: string, tags: string[]): ScenarioTestCase => ({
+  name,
+  event: { type: "contact.created" },
+  initialState: { tags },
+  expect: {}
+});
+
+describe("runCoverage", () => {
+  it("lists the steps and paths no test case reached", () => {
+    const [report] = runCoverage([{ workflowId: "main", graph }], [contact("VIP", ["vip"])]);
+    expect(report).toMatchObject({
+      totalNodes: 4,
+      coveredNodes: 3,
+      totalBranches: 2,
+      coveredBranches: 1,
+      uncoveredNodes: [{ nodeId: "email", nodeType: "email.send" }],
+      uncoveredBranches: [{ nodeId: "check", handle: "else", label: "Else" }]
+    });
+    expect(isCoverageComplete(report)).toBe(false);
+  });
+
+  it("adds up coverage across test cases", () => {
+    const [report] = runCoverage(
+      [{ workflowId: "main", graph }],
+      [contact("VIP", ["vip"]), contact("New", [])]
+    );
+    expect(isCoverageComplete(report)).toBe(true);
+  });
+
+  it("keeps workflows that share node ids apart", () => {
+    const other: WorkflowGraph = {
+      ...graph,
+      nodes: graph.nodes.map((item) =>
+        item.kind === "trigger" ? node("trigger", "form.submitted", "trigger") : item
+      )
+    };
+    const reports = runCoverage(
+      [
+        { workflowId: "main", graph },
+        { workflowId: "form", graph: other }
+      ],
+      [contact("VIP", ["vip"])]
+    );
+    expect(reports.map((report) => report.coveredNodes)).toEqual([3, 0]);
+  });
+});
@@ -0,0 +1,113 @@
+import type { IfElseConfig, NodeType, SplitConfig, WorkflowGraph } from "@/lib/workflowTypes";
+import type { ScenarioTeamMember, ScenarioTestCase } from "@/lib/scenarioTypes";
+import {
+  getTestCaseRunResults,
+  runSimulationTestCase,
+  type SimulationResult,
+  type SimulationWorkflow
+} from "@/lib/simulation";
+
+export type CoverageBranch = {
+  nodeId: string;
+  handle: string;
+  label: string;
+};
+
+export type CoverageReport = {
+  workflowId: string;
+  totalNodes: number;
+  coveredNodes: number;
+  totalBranches: number;
+  coveredBranches: number;
+  uncoveredNodes: { nodeId: string; nodeType: NodeType }[];
+  uncoveredBranches: CoverageBranch[];
+};
+
+const branchKey = (nodeId: string, handle: string) => `${nodeId}:${handle}`;
+
+const listBranches = (graph: WorkflowGraph): CoverageBranch[] =>
+  graph.nodes
+    .filter((node) => node.type === "ifElse" || node.type === "split")
+    .flatMap((node) => {
+      if (node.type === "split") {
+        return ((node.config as SplitConfig).paths ?? []).map((path) => ({
+          nodeId: node.id,
+          handle: `path-${path.id}`,
+          label: path.label
+        }));
+      }
+      const config = node.config as IfElseConfig;
+      const branches = (config.branches ?? []).map((branch) => ({
+        nodeId: node.id,
+        handle: `branch-${branch.id}`,
+        label: branch.label
+      }));
+      return config.elseEnabled
+        ? [...branches, { nodeId: node.id, handle: "else", label: "Else" }]
+        : branches;
+    });
+
+/**
+ * Aggregates which steps ran and which If/Else and Split paths were taken across
+ * a set of runs. Node ids are only unique within one graph, so steps and log
+ * entries are matched by workflow too; runs that cover a whole bundle can be
+ * passed in as-is.
+ */
+export const buildCoverageReport = (
+  workflowId: string,
+  graph: WorkflowGraph,
+  results: SimulationResult[]
+): CoverageReport => {
+  const executed = new Set(
+    results.flatMap((result) => result.executedByWorkflow[workflowId] ?? [])
+  );
+  const taken = new Set<string>();
+  results.forEach((result) =>
+    result.timeline.forEach((entry) => {
+      if (entry.workflowId !== workflowId) {
+        return;
+      }
+      if (entry.ifElseTrace?.outcome === "branch" && entry.ifElseTrace.branchId) {
+        taken.add(branchKey(entry.nodeId, `branch-${entry.ifElseTrace.branchId}`));
+      } else if (entry.ifElseTrace?.outcome === "else") {
+        taken.add(branchKey(entry.nodeId, "else"));
+      } else if (entry.splitPath) {
+        taken.add(branchKey(entry.nodeId, `path-${entry.splitPath.pathId}`));
+      }
+    })
+  );
+
+  const branches = listBranches(graph);
+  const uncoveredNodes = graph.nodes
+    .filter((node) => !executed.has(node.id))
+    .map((node) => ({ nodeId: node.id, nodeType: node.type }));
+  const uncoveredBranches = branches.filter(
+    (branch) => !taken.has(branchKey(branch.nodeId, branch.handle))
+  );
+
+  return {
+    workflowId,
+    totalNodes: graph.nodes.length,
+    coveredNodes: graph.nodes.length - uncoveredNodes.length,
+    totalBranches: branches.length,
+    coveredBranches: branches.length - uncoveredBranches.length,
+    uncoveredNodes,
+    uncoveredBranches
+  };
+};
+
+export const runCoverage = (
+  workflows: SimulationWorkflow[],
+  testCases: ScenarioTestCase[],
+  team?: ScenarioTeamMember[]
+): CoverageReport[] => {
+  const results = testCases.flatMap((testCase) =>
+    getTestCaseRunResults(runSimulationTestCase(workflows, testCase, team))
+  );
+  return workflows.map((workflow) =>
+    buildCoverageReport(workflow.workflowId, workflow.graph, results)
+  );
+};
+
+export const isCoverageComplete = (report: CoverageReport) =>
+  report.uncoveredNodes.length === 0 && report.uncoveredBranches.length === 0;
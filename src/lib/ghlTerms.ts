@@ -48,6 +48,33 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "You can confirm or remind at the right time.",
     ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Appointment Status"
   },
+  {
+    internalType: "appointment.cancelled",
+    kind: "trigger",
+    displayName: "Appointment Cancelled",
+    shortHelp: "Starts when an appointment is cancelled.",
+    whatItMeans: "This step starts when the contact's appointment changes to Cancelled.",
+    whyItMatters: "You can stop reminders and offer a new time.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Appointment Status (Cancelled)"
+  },
+  {
+    internalType: "appointment.noShow",
+    kind: "trigger",
+    displayName: "Appointment No-Show",
+    shortHelp: "Starts when a contact misses an appointment.",
+    whatItMeans: "This step starts when the appointment is marked as a no-show.",
+    whyItMatters: "A quick follow-up can save the lead.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Appointment Status (No Show)"
+  },
+  {
+    internalType: "appointment.rescheduled",
+    kind: "trigger",
+    displayName: "Appointment Rescheduled",
+    shortHelp: "Starts when an appointment moves to a new time.",
+    whatItMeans: "This step starts when the contact's appointment gets a new time.",
+    whyItMatters: "Reminders should follow the new time, not the old one.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Appointment Status (Rescheduled)"
+  },
   {
     internalType: "opportunity.stageChanged",
     kind: "trigger",
@@ -75,6 +102,24 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "You can run daily tasks without a contact event.",
     ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Schedule"
   },
+  {
+    internalType: "email.opened",
+    kind: "trigger",
+    displayName: "Email Opened",
+    shortHelp: "Starts when a contact opens an email.",
+    whatItMeans: "This step starts when the contact opens an email you sent.",
+    whyItMatters: "You can follow up while the contact is interested.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Email Events (Opened)"
+  },
+  {
+    internalType: "email.clicked",
+    kind: "trigger",
+    displayName: "Email Link Clicked",
+    shortHelp: "Starts when a contact clicks a link in an email.",
+    whatItMeans: "This step starts when the contact clicks a link in an email you sent.",
+    whyItMatters: "A click shows what the contact cares about.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Trigger -> Email Events (Clicked)"
+  },
   {
     internalType: "sms.send",
     kind: "action",
@@ -111,6 +156,15 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "Clean tags prevent wrong paths later.",
     ghlWhere: "In HighLevel: Workflows -> + Add Action -> Remove Contact Tag"
   },
+  {
+    internalType: "tag.toggle",
+    kind: "action",
+    displayName: "Toggle Contact Tag",
+    shortHelp: "Adds the tag if missing, removes it if present.",
+    whatItMeans: "This step flips a tag on or off.",
+    whyItMatters: "One step can track a yes/no state like opted in.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Add Contact Tag / Remove Contact Tag"
+  },
   {
     internalType: "field.update",
     kind: "action",
@@ -120,6 +174,24 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "Fields store facts you can use later.",
     ghlWhere: "In HighLevel: Workflows -> + Add Action -> Update Contact Field"
   },
+  {
+    internalType: "field.increment",
+    kind: "action",
+    displayName: "Increase Number Field",
+    shortHelp: "Adds a number to a contact field.",
+    whatItMeans: "This step counts up, like visits + 1. A missing field starts at 0.",
+    whyItMatters: "Counters show how often something happened.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Math Operation"
+  },
+  {
+    internalType: "field.clear",
+    kind: "action",
+    displayName: "Clear Contact Field",
+    shortHelp: "Empties a contact field.",
+    whatItMeans: "This step removes the value of a field like appointment_time.",
+    whyItMatters: "Old values can send a contact down the wrong path.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Update Contact Field (leave value empty)"
+  },
   {
     internalType: "task.create",
     kind: "action",
@@ -147,6 +219,24 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "It connects HighLevel to other tools.",
     ghlWhere: "In HighLevel: Workflows -> + Add Action -> Webhook"
   },
+  {
+    internalType: "workflow.enroll",
+    kind: "action",
+    displayName: "Add To Workflow",
+    shortHelp: "Starts another workflow for the contact.",
+    whatItMeans: "This step hands the contact to another workflow.",
+    whyItMatters: "Routing is explicit, without relying on a tag to start the next workflow.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Add To Workflow"
+  },
+  {
+    internalType: "opportunity.update",
+    kind: "action",
+    displayName: "Create/Update Opportunity",
+    shortHelp: "Moves a deal to a stage or marks it won or lost.",
+    whatItMeans: "This step updates the contact's deal in a pipeline, or creates one.",
+    whyItMatters: "The pipeline shows where every deal stands.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Create/Update Opportunity"
+  },
   {
     internalType: "wait.duration",
     kind: "logic",
@@ -156,6 +246,15 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "Spacing messages feels more natural.",
     ghlWhere: "In HighLevel: Workflows -> + Add Action -> Wait"
   },
+  {
+    internalType: "wait.untilTime",
+    kind: "logic",
+    displayName: "Wait Until Time",
+    shortHelp: "Pauses until a time of day.",
+    whatItMeans: "This step waits for the next matching time, like 9:00 AM on a weekday.",
+    whyItMatters: "Messages arrive during business hours instead of at night.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Wait -> Event/Time Window"
+  },
   {
     internalType: "ifElse",
     kind: "logic",
@@ -165,6 +264,33 @@ export const GHL_TERMS: GhlTerm[] = [
     whyItMatters: "You can personalize the next step.",
     ghlWhere: "In HighLevel: Workflows -> + Add Action -> If/Else"
   },
+  {
+    internalType: "goal",
+    kind: "logic",
+    displayName: "Goal Event",
+    shortHelp: "Jumps here as soon as a goal is met.",
+    whatItMeans: "When the goal is met, waiting steps are skipped and the flow continues here.",
+    whyItMatters: "Contacts who book or reply stop getting nurture messages.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Goal Event"
+  },
+  {
+    internalType: "split",
+    kind: "logic",
+    displayName: "Split",
+    shortHelp: "Sends contacts down paths by percentage.",
+    whatItMeans: "This step randomly picks a path, like 50% A and 50% B.",
+    whyItMatters: "You can test two messages and keep the one that works.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Split"
+  },
+  {
+    internalType: "drip",
+    kind: "logic",
+    displayName: "Drip",
+    shortHelp: "Lets contacts through in batches.",
+    whatItMeans: "This step releases a few contacts at a time, like 10 every 15 minutes.",
+    whyItMatters: "A big list does not flood your phone lines or sending limits at once.",
+    ghlWhere: "In HighLevel: Workflows -> + Add Action -> Drip"
+  },
   {
     internalType: "stop",
     kind: "logic",
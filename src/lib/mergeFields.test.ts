@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+import { renderMergeFields, toMergeFieldToken } from "@/lib/mergeFields";
+import { simulateWorkflows } from "@/lib/simulation";
+import { line, node } from "@/lib/testFixtures";
+
+describe("renderMergeFields", () => {
+  it("fills contact and custom value tokens", () => {
+    const fields = { first_name: "Ann", "custom_values.office": "Main St", office: "Old St" };
+    expect(
+      renderMergeFields("Hi {{ contact.first_name }}, see you at {{custom_values.office}}.", fields)
+    ).toEqual({ text: "Hi Ann, see you at Main St.", unresolved: [] });
+  });
+
+  it("leaves a token with no value blank and lists it", () => {
+    expect(renderMergeFields("Hi {{contact.first_name}}!", { first_name: "" })).toEqual({
+      text: "Hi !",
+      unresolved: ["{{contact.first_name}}"]
+    });
+    expect(renderMergeFields("{{user.name}}", { name: "Ann" }).unresolved).toEqual([
+      "{{user.name}}"
+    ]);
+  });
+
+  it("builds tokens for the insert menu", () => {
+    expect(toMergeFieldToken("phone")).toBe("{{contact.phone}}");
+    expect(toMergeFieldToken("office", "custom_values")).toBe("{{custom_values.office}}");
+  });
+});
+
+describe("merge fields in the simulator", () => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("sms", "sms.send", "action", { body: "Hi {{contact.first_name}}" })
+    ],
+    edges: [line("trigger", "sms")]
+  };
+  const run = (fields: Record<string, string>) =>
+    simulateWorkflows([{ workflowId: "main", graph }], { type: "contact.created" }, { fields });
+
+  it("renders text when the step runs", () => {
+    expect(run({ first_name: "Ann" }).finalState.messages[0].body).toBe("Hi Ann");
+  });
+
+  it("logs a warning for a blank token", () => {
+    const result = run({});
+    expect(result.finalState.messages[0].body).toBe("Hi ");
+    expect(result.timeline).toContainEqual(
+      expect.objectContaining({
+        nodeId: "sms",
+        level: "warning",
+        summary: "Merge field has no value (left blank)"
+      })
+    );
+  });
+});
@@ -0,0 +1,43 @@
+export type MergeFieldValues = Record<string, string | number | boolean | null>;
+
+export type MergeFieldResult = {
+  text: string;
+  unresolved: string[];
+};
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([a-zA-Z_][\w]*)\.([\w.]+)\s*\}\}/g;
+
+export const MERGE_FIELD_SCOPES = ["contact", "custom_values"] as const;
+
+export const toMergeFieldToken = (fieldKey: string, scope = "contact") =>
+  `{{${scope}.${fieldKey}}}`;
+
+const lookupValue = (fields: MergeFieldValues, scope: string, key: string) => {
+  const scoped = fields[`${scope}.${key}`];
+  if (scoped !== undefined && scoped !== null) {
+    return scoped;
+  }
+  return fields[key];
+};
+
+/**
+ * Resolves {{contact.x}} and {{custom_values.x}} tokens against contact fields.
+ * Like HighLevel, a token with no value renders as blank.
+ */
+export const renderMergeFields = (
+  template: string,
+  fields: MergeFieldValues
+): MergeFieldResult => {
+  const unresolved: string[] = [];
+  const text = template.replace(MERGE_FIELD_PATTERN, (token, scope: string, key: string) => {
+    const value = MERGE_FIELD_SCOPES.includes(scope as (typeof MERGE_FIELD_SCOPES)[number])
+      ? lookupValue(fields, scope, key)
+      : undefined;
+    if (value === undefined || value === null || String(value).length === 0) {
+      unresolved.push(token);
+      return "";
+    }
+    return String(value);
+  });
+  return { text, unresolved };
+};
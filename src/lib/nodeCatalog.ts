@@ -1,8 +1,15 @@
 import { nanoid } from "nanoid";
-import type { NodeKind, NodeType, IfElseConfig } from "@/lib/workflowTypes";
+import type {
+  AssignMode,
+  NodeKind,
+  NodeType,
+  IfElseConfig,
+  GoalConfig,
+  SplitConfig
+} from "@/lib/workflowTypes";
 import { getGhlTerm, getNodeDisplayName, getNodeShortHelp } from "@/lib/ghlTerms";
 
-export type ConfigFieldType = "string" | "number" | "boolean" | "select";
+export type ConfigFieldType = "string" | "number" | "boolean" | "select" | "time";
 
 export type ConfigFieldOption = { value: string; label: string };
 
@@ -14,15 +21,24 @@ export type ConfigField = {
   options?: string[] | ConfigFieldOption[];
   placeholder?: string;
   helper?: string;
+  mergeFields?: boolean;
+  optionsSource?: "workflows" | "emailSteps";
+  requiredUnless?: { key: string; values: string[] };
 };
 
+const ASSIGN_MODE_OPTIONS: { value: AssignMode; label: string }[] = [
+  { value: "user", label: "Specific user" },
+  { value: "owner", label: "Contact owner" },
+  { value: "roundRobin", label: "Round robin (team)" }
+];
+
 export type NodeDefinition = {
   type: NodeType;
   kind: NodeKind;
   label: string;
   description: string;
   configFields?: ConfigField[];
-  customEditor?: "ifElse";
+  customEditor?: "ifElse" | "goal" | "split";
   hidden?: boolean;
 };
 
@@ -97,6 +113,75 @@ export const NODE_CATALOG: NodeDefinition[] = [
       }
     ]
   },
+  {
+    type: "appointment.cancelled",
+    kind: "trigger",
+    label: getNodeDisplayName("appointment.cancelled"),
+    description: getNodeShortHelp("appointment.cancelled"),
+    hidden: getGhlTerm("appointment.cancelled")?.hidden,
+    configFields: [
+      {
+        key: "calendarName",
+        label: "Calendar name",
+        type: "string",
+        placeholder: "Sales Calendar",
+        helper: "Optional. Use to match one calendar."
+      },
+      {
+        key: "calendarId",
+        label: "Calendar ID",
+        type: "string",
+        placeholder: "cal_123",
+        helper: "Optional. Use to match one calendar."
+      }
+    ]
+  },
+  {
+    type: "appointment.noShow",
+    kind: "trigger",
+    label: getNodeDisplayName("appointment.noShow"),
+    description: getNodeShortHelp("appointment.noShow"),
+    hidden: getGhlTerm("appointment.noShow")?.hidden,
+    configFields: [
+      {
+        key: "calendarName",
+        label: "Calendar name",
+        type: "string",
+        placeholder: "Sales Calendar",
+        helper: "Optional. Use to match one calendar."
+      },
+      {
+        key: "calendarId",
+        label: "Calendar ID",
+        type: "string",
+        placeholder: "cal_123",
+        helper: "Optional. Use to match one calendar."
+      }
+    ]
+  },
+  {
+    type: "appointment.rescheduled",
+    kind: "trigger",
+    label: getNodeDisplayName("appointment.rescheduled"),
+    description: getNodeShortHelp("appointment.rescheduled"),
+    hidden: getGhlTerm("appointment.rescheduled")?.hidden,
+    configFields: [
+      {
+        key: "calendarName",
+        label: "Calendar name",
+        type: "string",
+        placeholder: "Sales Calendar",
+        helper: "Optional. Use to match one calendar."
+      },
+      {
+        key: "calendarId",
+        label: "Calendar ID",
+        type: "string",
+        placeholder: "cal_123",
+        helper: "Optional. Use to match one calendar."
+      }
+    ]
+  },
   {
     type: "opportunity.stageChanged",
     kind: "trigger",
@@ -134,6 +219,45 @@ export const NODE_CATALOG: NodeDefinition[] = [
     description: getNodeShortHelp("scheduler.daily"),
     hidden: getGhlTerm("scheduler.daily")?.hidden
   },
+  {
+    type: "email.opened",
+    kind: "trigger",
+    label: getNodeDisplayName("email.opened"),
+    description: getNodeShortHelp("email.opened"),
+    hidden: getGhlTerm("email.opened")?.hidden,
+    configFields: [
+      {
+        key: "emailNodeId",
+        label: "Email step",
+        type: "select",
+        optionsSource: "emailSteps",
+        helper: "Optional. Leave empty to start on any email."
+      }
+    ]
+  },
+  {
+    type: "email.clicked",
+    kind: "trigger",
+    label: getNodeDisplayName("email.clicked"),
+    description: getNodeShortHelp("email.clicked"),
+    hidden: getGhlTerm("email.clicked")?.hidden,
+    configFields: [
+      {
+        key: "emailNodeId",
+        label: "Email step",
+        type: "select",
+        optionsSource: "emailSteps",
+        helper: "Optional. Leave empty to start on any email."
+      },
+      {
+        key: "linkContains",
+        label: "Link contains",
+        type: "string",
+        placeholder: "/pricing",
+        helper: "Optional. Use to match one link."
+      }
+    ]
+  },
   {
     type: "sms.send",
     kind: "action",
@@ -146,7 +270,8 @@ export const NODE_CATALOG: NodeDefinition[] = [
         label: "Message",
         type: "string",
         required: true,
-        placeholder: "Welcome! Thanks for reaching out."
+        placeholder: "Welcome! Thanks for reaching out.",
+        mergeFields: true
       }
     ]
   },
@@ -162,14 +287,16 @@ export const NODE_CATALOG: NodeDefinition[] = [
         label: "Subject",
         type: "string",
         required: true,
-        placeholder: "Thanks for your request"
+        placeholder: "Thanks for your request",
+        mergeFields: true
       },
       {
         key: "body",
         label: "Email body",
         type: "string",
         required: true,
-        placeholder: "Hi {{contact.first_name}}, thanks for reaching out."
+        placeholder: "Hi {{contact.first_name}}, thanks for reaching out.",
+        mergeFields: true
       }
     ]
   },
@@ -199,6 +326,22 @@ export const NODE_CATALOG: NodeDefinition[] = [
       }
     ]
   },
+  {
+    type: "tag.toggle",
+    kind: "action",
+    label: getNodeDisplayName("tag.toggle"),
+    description: getNodeShortHelp("tag.toggle"),
+    hidden: getGhlTerm("tag.toggle")?.hidden,
+    configFields: [
+      {
+        key: "tag",
+        label: "Tag",
+        type: "string",
+        required: true,
+        placeholder: "newsletter:subscribed"
+      }
+    ]
+  },
   {
     type: "field.update",
     kind: "action",
@@ -222,6 +365,46 @@ export const NODE_CATALOG: NodeDefinition[] = [
       }
     ]
   },
+  {
+    type: "field.increment",
+    kind: "action",
+    label: getNodeDisplayName("field.increment"),
+    description: getNodeShortHelp("field.increment"),
+    hidden: getGhlTerm("field.increment")?.hidden,
+    configFields: [
+      {
+        key: "fieldKey",
+        label: "Field",
+        type: "string",
+        required: true,
+        placeholder: "visit_count"
+      },
+      {
+        key: "amount",
+        label: "Add",
+        type: "number",
+        required: true,
+        placeholder: "1",
+        helper: "Use a negative number to count down."
+      }
+    ]
+  },
+  {
+    type: "field.clear",
+    kind: "action",
+    label: getNodeDisplayName("field.clear"),
+    description: getNodeShortHelp("field.clear"),
+    hidden: getGhlTerm("field.clear")?.hidden,
+    configFields: [
+      {
+        key: "fieldKey",
+        label: "Field",
+        type: "string",
+        required: true,
+        placeholder: "appointment_time"
+      }
+    ]
+  },
   {
     type: "task.create",
     kind: "action",
@@ -234,13 +417,21 @@ export const NODE_CATALOG: NodeDefinition[] = [
         label: "Task title",
         type: "string",
         required: true,
-        placeholder: "Call this lead today"
+        placeholder: "Call this lead today",
+        mergeFields: true
+      },
+      {
+        key: "assignMode",
+        label: "Assign to",
+        type: "select",
+        options: ASSIGN_MODE_OPTIONS
       },
       {
         key: "assignedTo",
         label: "Assigned to",
         type: "string",
-        placeholder: "Team member name"
+        placeholder: "Team member name",
+        helper: "Used when Assign to is a specific user."
       },
       {
         key: "dueInMinutes",
@@ -273,14 +464,23 @@ export const NODE_CATALOG: NodeDefinition[] = [
         label: "Recipient",
         type: "string",
         required: true,
-        placeholder: "Team member name"
+        requiredUnless: { key: "assignMode", values: ["owner", "roundRobin"] },
+        placeholder: "Team member name",
+        helper: "Not needed when Assign to is the contact owner or round robin."
+      },
+      {
+        key: "assignMode",
+        label: "Assign to",
+        type: "select",
+        options: ASSIGN_MODE_OPTIONS
       },
       {
         key: "message",
         label: "Message",
         type: "string",
         required: true,
-        placeholder: "New lead from Facebook"
+        placeholder: "New lead from Facebook",
+        mergeFields: true
       }
     ]
   },
@@ -313,6 +513,64 @@ export const NODE_CATALOG: NodeDefinition[] = [
       }
     ]
   },
+  {
+    type: "workflow.enroll",
+    kind: "action",
+    label: getNodeDisplayName("workflow.enroll"),
+    description: getNodeShortHelp("workflow.enroll"),
+    hidden: getGhlTerm("workflow.enroll")?.hidden,
+    configFields: [
+      {
+        key: "workflowId",
+        label: "Workflow",
+        type: "select",
+        required: true,
+        optionsSource: "workflows",
+        helper: "Choose another workflow in this lesson."
+      }
+    ]
+  },
+  {
+    type: "opportunity.update",
+    kind: "action",
+    label: getNodeDisplayName("opportunity.update"),
+    description: getNodeShortHelp("opportunity.update"),
+    hidden: getGhlTerm("opportunity.update")?.hidden,
+    configFields: [
+      {
+        key: "pipelineName",
+        label: "Pipeline name",
+        type: "string",
+        required: true,
+        placeholder: "Sales"
+      },
+      {
+        key: "stageName",
+        label: "Stage",
+        type: "string",
+        required: true,
+        placeholder: "Proposal Sent",
+        helper: "Creates the deal here if the contact has none in this pipeline."
+      },
+      {
+        key: "status",
+        label: "Status",
+        type: "select",
+        options: [
+          { value: "", label: "Keep current" },
+          { value: "open", label: "Open" },
+          { value: "won", label: "Won" },
+          { value: "lost", label: "Lost" }
+        ]
+      },
+      {
+        key: "value",
+        label: "Deal value",
+        type: "number",
+        placeholder: "1500"
+      }
+    ]
+  },
   {
     type: "wait.duration",
     kind: "logic",
@@ -329,6 +587,34 @@ export const NODE_CATALOG: NodeDefinition[] = [
       }
     ]
   },
+  {
+    type: "wait.untilTime",
+    kind: "logic",
+    label: getNodeDisplayName("wait.untilTime"),
+    description: getNodeShortHelp("wait.untilTime"),
+    hidden: getGhlTerm("wait.untilTime")?.hidden,
+    configFields: [
+      {
+        key: "time",
+        label: "Continue at",
+        type: "time",
+        required: true,
+        placeholder: "09:00",
+        helper: "Uses the contact's time zone from the test case."
+      },
+      {
+        key: "days",
+        label: "On days",
+        type: "select",
+        required: true,
+        options: [
+          { value: "any", label: "Any day" },
+          { value: "weekdays", label: "Weekdays (Mon-Fri)" },
+          { value: "weekends", label: "Weekends (Sat-Sun)" }
+        ]
+      }
+    ]
+  },
   {
     type: "ifElse",
     kind: "logic",
@@ -337,6 +623,46 @@ export const NODE_CATALOG: NodeDefinition[] = [
     hidden: getGhlTerm("ifElse")?.hidden,
     customEditor: "ifElse"
   },
+  {
+    type: "goal",
+    kind: "logic",
+    label: getNodeDisplayName("goal"),
+    description: getNodeShortHelp("goal"),
+    hidden: getGhlTerm("goal")?.hidden,
+    customEditor: "goal"
+  },
+  {
+    type: "split",
+    kind: "logic",
+    label: getNodeDisplayName("split"),
+    description: getNodeShortHelp("split"),
+    hidden: getGhlTerm("split")?.hidden,
+    customEditor: "split"
+  },
+  {
+    type: "drip",
+    kind: "logic",
+    label: getNodeDisplayName("drip"),
+    description: getNodeShortHelp("drip"),
+    hidden: getGhlTerm("drip")?.hidden,
+    configFields: [
+      {
+        key: "batchSize",
+        label: "Contacts per batch",
+        type: "number",
+        required: true,
+        placeholder: "10"
+      },
+      {
+        key: "intervalMinutes",
+        label: "Minutes between batches",
+        type: "number",
+        required: true,
+        placeholder: "15",
+        helper: "The first batch goes right away. Later contacts wait for the next batch."
+      }
+    ]
+  },
   {
     type: "stop",
     kind: "logic",
@@ -355,6 +681,14 @@ export const NODE_GROUPS: Record<NodeKind, NodeDefinition[]> = {
 export const getNodeDefinition = (type: NodeType) =>
   NODE_CATALOG.find((node) => node.type === type);
 
+export const isFieldRequired = (field: ConfigField, config?: Record<string, unknown>) => {
+  if (!field.required) {
+    return false;
+  }
+  const unless = field.requiredUnless;
+  return !unless || !unless.values.includes(String(config?.[unless.key] ?? ""));
+};
+
 export const createDefaultIfElseConfig = (): IfElseConfig => ({
   branches: [
     {
@@ -366,34 +700,69 @@ export const createDefaultIfElseConfig = (): IfElseConfig => ({
   elseEnabled: true
 });
 
+export const createDefaultGoalConfig = (): GoalConfig => ({
+  condition: { anyAll: "all", rules: [] }
+});
+
+export const createDefaultSplitConfig = (): SplitConfig => ({
+  paths: [
+    { id: nanoid(), label: "A", weight: 50 },
+    { id: nanoid(), label: "B", weight: 50 }
+  ]
+});
+
 export const getDefaultConfig = (type: NodeType) => {
   switch (type) {
     case "contact.tagAdded":
     case "tag.add":
     case "tag.remove":
+    case "tag.toggle":
       return { tag: "" };
     case "form.submitted":
       return { formName: "", formId: "" };
     case "appointment.scheduled":
+    case "appointment.cancelled":
+    case "appointment.noShow":
+    case "appointment.rescheduled":
       return { calendarName: "", calendarId: "" };
     case "opportunity.stageChanged":
       return { pipelineName: "", stageName: "" };
+    case "email.opened":
+      return { emailNodeId: "" };
+    case "email.clicked":
+      return { emailNodeId: "", linkContains: "" };
     case "sms.send":
       return { body: "" };
     case "email.send":
       return { subject: "", body: "" };
     case "field.update":
       return { fieldKey: "", value: "" };
+    case "field.increment":
+      return { fieldKey: "", amount: 1 };
+    case "field.clear":
+      return { fieldKey: "" };
     case "task.create":
-      return { title: "", assignedTo: "", dueInMinutes: null };
+      return { title: "", assignMode: "user", assignedTo: "", dueInMinutes: null };
     case "user.notify":
-      return { channel: "inApp", recipient: "", message: "" };
+      return { channel: "inApp", recipient: "", assignMode: "user", message: "" };
     case "webhook.send":
       return { url: "", method: "POST", payloadTemplate: "" };
+    case "workflow.enroll":
+      return { workflowId: "" };
+    case "opportunity.update":
+      return { pipelineName: "", stageName: "", status: "", value: null };
     case "wait.duration":
       return { durationSeconds: 0 };
+    case "wait.untilTime":
+      return { time: "09:00", days: "weekdays" };
     case "ifElse":
       return createDefaultIfElseConfig();
+    case "goal":
+      return createDefaultGoalConfig();
+    case "split":
+      return createDefaultSplitConfig();
+    case "drip":
+      return { batchSize: 10, intervalMinutes: 15 };
     default:
       return {};
   }
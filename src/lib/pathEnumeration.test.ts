@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowGraph, WorkflowNode } from "@/lib/workflowTypes";
+import {
+  describePathConditions,
+  describeWorkflowPath,
+  enumerateWorkflowPaths
+} from "@/lib/pathEnumeration";
+import { line, node } from "@/lib/testFixtures";
+
+const hasPhone = { anyAll: "all", rules: [{ type: "fieldExists", fieldKey: "phone" }] };
+
+// Trigger → If/Else (Phone / Else) → SMS → Stop, and Else → Email with nothing after it.
+const branching: WorkflowGraph = {
+  nodes: [
+    node("trigger", "contact.created", "trigger"),
+    node("check", "ifElse", "logic", {
+      elseEnabled: true,
+      branches: [{ id: "phone", label: "Phone exists", condition: hasPhone }]
+    }),
+    node("sms", "sms.send", "action", { body: "Hi" }),
+    node("email", "email.send", "action", { subject: "Hi", body: "Hi" }),
+    node("stop", "stop", "logic")
+  ],
+  edges: [
+    line("trigger", "check"),
+    line("check", "sms", "branch-phone"),
+    line("check", "email", "else"),
+    line("sms", "stop")
+  ]
+};
+
+describe("enumerateWorkflowPaths", () => {
+  it("starts a path for each branch and the Else handle", () => {
+    const { paths, truncated } = enumerateWorkflowPaths(branching);
+    expect(truncated).toBe(false);
+    expect(paths.map((path) => describeWorkflowPath(branching, path))).toEqual([
+      "Phone exists → Send SMS → Stop",
+      "Else → Send Email → End"
+    ]);
+    expect(paths.map((path) => path.end)).toEqual(["stop", "end"]);
+  });
+
+  it("lists the conditions each path must meet", () => {
+    const [phonePath, elsePath] = enumerateWorkflowPaths(branching).paths;
+    expect(describePathConditions(phonePath)).toHaveLength(1);
+    expect(describePathConditions(phonePath)[0]).toMatch(/^Phone exists: /);
+    expect(describePathConditions(elsePath)).toEqual(["Else: none of the other branches match"]);
+    expect(elsePath.steps[1].branch?.excluded.map((branch) => branch.id)).toEqual(["phone"]);
+  });
+
+  it("forks on several plain lines and ends a path that comes back around", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("wait", "wait.duration", "logic", { durationSeconds: 60 }),
+        node("sms", "sms.send", "action", { body: "Hi" }),
+        node("stop", "stop", "logic")
+      ],
+      edges: [
+        line("trigger", "wait"),
+        line("wait", "sms"),
+        line("wait", "stop"),
+        line("sms", "wait")
+      ]
+    };
+    const { paths } = enumerateWorkflowPaths(graph);
+    expect(paths.map((path) => [path.end, path.loopsTo])).toEqual([
+      ["loop", "wait"],
+      ["stop", undefined]
+    ]);
+    expect(describeWorkflowPath(graph, paths[0])).toBe("Wait → Send SMS → back to Wait");
+  });
+
+  it("stops at the limit and says the listing was cut off", () => {
+    const { paths, truncated } = enumerateWorkflowPaths(branching, 1);
+    expect(paths).toHaveLength(1);
+    expect(truncated).toBe(true);
+    expect(enumerateWorkflowPaths(branching, 2).truncated).toBe(false);
+  });
+
+  it("ends the path at an If/Else or Split with no way out", () => {
+    const deadEnd = (step: WorkflowNode): WorkflowGraph => ({
+      nodes: [node("trigger", "contact.created", "trigger"), step],
+      edges: [line("trigger", step.id)]
+    });
+    const noBranches = deadEnd(
+      node("check", "ifElse", "logic", { elseEnabled: false, branches: [] })
+    );
+    const noPaths = deadEnd(node("split", "split", "logic", { paths: [] }));
+    [noBranches, noPaths].forEach((graph) => {
+      const { paths } = enumerateWorkflowPaths(graph);
+      expect(paths.map((path) => path.end)).toEqual(["end"]);
+      expect(paths[0].steps.map((step) => step.nodeId)).toEqual(["trigger", graph.nodes[1].id]);
+    });
+    expect(describeWorkflowPath(noBranches, enumerateWorkflowPaths(noBranches).paths[0])).toBe(
+      "If/Else → End"
+    );
+  });
+});
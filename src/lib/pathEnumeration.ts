@@ -0,0 +1,201 @@
+import type {
+  ConditionGroup,
+  IfElseBranch,
+  IfElseConfig,
+  NodeType,
+  SplitConfig,
+  WorkflowGraph,
+  WorkflowNode
+} from "@/lib/workflowTypes";
+import { describeConditionGroup, isConditionGroupEmpty } from "@/lib/conditions";
+import { getNodeDisplayName } from "@/lib/ghlTerms";
+
+export type PathBranch = {
+  nodeId: string;
+  nodeType: "ifElse" | "split";
+  handle: string;
+  label: string;
+  // Rules that must match to take this branch; Else and Split paths have none.
+  condition?: ConditionGroup;
+  // Earlier branches on the same If/Else, which must not match first.
+  excluded: IfElseBranch[];
+};
+
+export type WorkflowPathStep = {
+  nodeId: string;
+  nodeType: NodeType;
+  branch?: PathBranch;
+};
+
+export type WorkflowPathEnd = "stop" | "end" | "loop";
+
+export type WorkflowPath = {
+  triggerId: string;
+  steps: WorkflowPathStep[];
+  end: WorkflowPathEnd;
+  loopsTo?: string;
+};
+
+export type PathEnumeration = {
+  paths: WorkflowPath[];
+  truncated: boolean;
+};
+
+export const MAX_WORKFLOW_PATHS = 200;
+
+type Exit = { branch?: PathBranch; targets: string[] };
+
+const listExits = (graph: WorkflowGraph, node: WorkflowNode): Exit[] => {
+  const edges = graph.edges.filter((edge) => edge.source === node.id);
+  const targetsFor = (handle?: string) =>
+    (handle ? edges.filter((edge) => edge.sourceHandle === handle) : edges)
+      .map((edge) => edge.target)
+      .sort();
+
+  if (node.type === "ifElse") {
+    const config = node.config as IfElseConfig;
+    const branches = config.branches ?? [];
+    const exits: Exit[] = branches.map((branch, index) => ({
+      branch: {
+        nodeId: node.id,
+        nodeType: "ifElse",
+        handle: `branch-${branch.id}`,
+        label: branch.label,
+        condition: branch.condition,
+        excluded: branches.slice(0, index)
+      },
+      targets: targetsFor(`branch-${branch.id}`)
+    }));
+    if (config.elseEnabled) {
+      exits.push({
+        branch: {
+          nodeId: node.id,
+          nodeType: "ifElse",
+          handle: "else",
+          label: "Else",
+          excluded: branches
+        },
+        targets: targetsFor("else")
+      });
+    }
+    return exits;
+  }
+
+  if (node.type === "split") {
+    return ((node.config as SplitConfig).paths ?? []).map((path) => ({
+      branch: {
+        nodeId: node.id,
+        nodeType: "split",
+        handle: `path-${path.id}`,
+        label: path.label,
+        excluded: []
+      },
+      targets: targetsFor(`path-${path.id}`)
+    }));
+  }
+
+  return [{ targets: targetsFor() }];
+};
+
+/**
+ * Walks the graph from each trigger and returns every route a contact could
+ * take. Each If/Else branch, the Else handle and each Split path starts its own
+ * route; a step with several plain outgoing lines also forks. A route ends at
+ * Stop, at a step with nothing after it, or when it returns to a step it
+ * already passed through.
+ */
+export const enumerateWorkflowPaths = (
+  graph: WorkflowGraph,
+  limit = MAX_WORKFLOW_PATHS
+): PathEnumeration => {
+  const nodesById = new Map(graph.nodes.map((node) => [node.id, node]));
+  const paths: WorkflowPath[] = [];
+  let truncated = false;
+
+  const walk = (triggerId: string, nodeId: string, steps: WorkflowPathStep[]) => {
+    if (paths.length >= limit) {
+      truncated = true;
+      return;
+    }
+    const node = nodesById.get(nodeId);
+    if (!node) {
+      paths.push({ triggerId, steps, end: "end" });
+      return;
+    }
+    if (steps.some((step) => step.nodeId === nodeId)) {
+      paths.push({ triggerId, steps, end: "loop", loopsTo: nodeId });
+      return;
+    }
+    const step: WorkflowPathStep = { nodeId, nodeType: node.type };
+    if (node.type === "stop") {
+      paths.push({ triggerId, steps: [...steps, step], end: "stop" });
+      return;
+    }
+    // An If/Else with no branches and no Else, or a Split with no paths, has no
+    // way out; like a step with no lines after it, the route ends there.
+    const exits = listExits(graph, node);
+    if (!exits.length) {
+      exits.push({ targets: [] });
+    }
+    exits.forEach((exit) => {
+      const taken = [...steps, { ...step, branch: exit.branch }];
+      if (exit.targets.length === 0) {
+        if (paths.length >= limit) {
+          truncated = true;
+          return;
+        }
+        paths.push({ triggerId, steps: taken, end: "end" });
+        return;
+      }
+      exit.targets.forEach((target) => walk(triggerId, target, taken));
+    });
+  };
+
+  graph.nodes
+    .filter((node) => node.kind === "trigger")
+    .forEach((trigger) => walk(trigger.id, trigger.id, []));
+
+  return { paths, truncated };
+};
+
+export const getPathNodeTypes = (path: WorkflowPath) => path.steps.map((step) => step.nodeType);
+
+export const getPathBranches = (path: WorkflowPath) =>
+  path.steps.flatMap((step) => (step.branch ? [step.branch] : []));
+
+/**
+ * Reads a route as learners see it on the canvas, e.g.
+ * "Phone exists → Send SMS → Stop". The trigger is only named when the
+ * workflow has more than one.
+ */
+export const describeWorkflowPath = (graph: WorkflowGraph, path: WorkflowPath) => {
+  const triggerCount = graph.nodes.filter((node) => node.kind === "trigger").length;
+  const parts = path.steps.flatMap((step, index) => {
+    if (index === 0 && step.nodeId === path.triggerId) {
+      return triggerCount > 1 ? [getNodeDisplayName(step.nodeType)] : [];
+    }
+    return [step.branch ? step.branch.label : getNodeDisplayName(step.nodeType)];
+  });
+  if (path.end === "end") {
+    parts.push("End");
+  }
+  if (path.end === "loop" && path.loopsTo) {
+    const target = graph.nodes.find((node) => node.id === path.loopsTo);
+    parts.push(`back to ${target ? getNodeDisplayName(target.type) : path.loopsTo}`);
+  }
+  return parts.join(" → ");
+};
+
+/**
+ * Lists the If/Else conditions a contact must meet to follow a route, in order.
+ */
+export const describePathConditions = (path: WorkflowPath) =>
+  getPathBranches(path)
+    .filter((branch) => branch.nodeType === "ifElse")
+    .map((branch) =>
+      branch.condition
+        ? isConditionGroupEmpty(branch.condition)
+          ? `${branch.label}: no rules yet`
+          : `${branch.label}: ${describeConditionGroup(branch.condition)}`
+        : `${branch.label}: none of the other branches match`
+    );
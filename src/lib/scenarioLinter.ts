@@ -1,10 +1,16 @@
 import { NODE_CATALOG } from "@/lib/nodeCatalog";
+import { APPOINTMENT_STATUSES, isConditionOperator } from "@/lib/conditions";
+import { getNodeDisplayName } from "@/lib/ghlTerms";
+import { runCoverage } from "@/lib/coverage";
+import { isValidTimeZone } from "@/lib/simulationClock";
+import { buildWorkflowMap } from "@/lib/workflowMap";
 import type { NodeType } from "@/lib/workflowTypes";
 import type {
   Scenario,
   ScenarioBundle,
   ScenarioDefinition,
-  ScenarioRequirement
+  ScenarioRequirement,
+  ScenarioTeamMember
 } from "@/lib/scenarioTypes";
 
 export type ScenarioLintIssue = {
@@ -20,13 +26,24 @@ const allowedExpectationKeys = new Set([
   "tagsAdded",
   "tagsRemoved",
   "fieldsEqual",
+  "fieldsGreaterThan",
+  "opportunityStageIs",
   "tasksCreated",
   "notifications",
   "webhooksFired",
   "systemTasksCreated",
-  "systemNotifications"
+  "systemNotifications",
+  "workflowsSkipped",
+  "workflowsStopped",
+  "splitDistribution",
+  "contactsReleased"
 ]);
 
+const opportunityStatuses = new Set<string>(["open", "won", "lost"]);
+
+const isEngagementEventType = (type: string) =>
+  type === "email.opened" || type === "email.clicked";
+
 const requirementNodeTypes = (requirement: ScenarioRequirement): string[] => {
   switch (requirement.type) {
     case "triggerIs":
@@ -46,7 +63,28 @@ const requirementNodeTypes = (requirement: ScenarioRequirement): string[] => {
   }
 };
 
-const lintScenario = (scenario: Scenario, prefix: string): ScenarioLintIssue[] => {
+const isTeamMember = (team: ScenarioTeamMember[], person: string) =>
+  team.some(
+    (member) => member.id === person || member.name.toLowerCase() === person.toLowerCase()
+  );
+
+const lintTeam = (team: ScenarioTeamMember[], path: string): ScenarioLintIssue[] => {
+  const seen = new Set<string>();
+  return team.flatMap((member) => {
+    if (seen.has(member.id)) {
+      return [{ level: "error" as const, path, message: `Duplicate team member id: ${member.id}` }];
+    }
+    seen.add(member.id);
+    return [];
+  });
+};
+
+const lintScenario = (
+  scenario: Scenario,
+  prefix: string,
+  workflowIds: string[],
+  team: ScenarioTeamMember[] = []
+): ScenarioLintIssue[] => {
   const issues: ScenarioLintIssue[] = [];
 
   scenario.allowedNodes.triggers.forEach((type) => {
@@ -78,6 +116,26 @@ const lintScenario = (scenario: Scenario, prefix: string): ScenarioLintIssue[] =
   });
 
   scenario.requirements.forEach((requirement, index) => {
+    if (
+      requirement.type === "conditionUsesOperator" &&
+      !isConditionOperator(requirement.operator)
+    ) {
+      issues.push({
+        level: "error",
+        path: `${prefix}.requirements[${index}]`,
+        message: `Unknown condition operator in requirement: ${requirement.operator}`
+      });
+    }
+    if (
+      requirement.type === "enrollsWorkflow" &&
+      !workflowIds.includes(requirement.workflowId)
+    ) {
+      issues.push({
+        level: "error",
+        path: `${prefix}.requirements[${index}]`,
+        message: `Unknown workflow in requirement: ${requirement.workflowId}`
+      });
+    }
     requirementNodeTypes(requirement).forEach((type) => {
       if (!validNodeTypes.has(type as NodeType)) {
         issues.push({
@@ -97,6 +155,137 @@ const lintScenario = (scenario: Scenario, prefix: string): ScenarioLintIssue[] =
         message: `Unknown event type: ${testCase.event.type}`
       });
     }
+    if (isEngagementEventType(testCase.event.type)) {
+      issues.push({
+        level: "error",
+        path: `${prefix}.testCases[${index}].event`,
+        message: `${testCase.event.type} cannot start a test because no email was sent yet. Inject it after an email step.`
+      });
+    }
+    testCase.injectedEvents?.forEach((injected, eventIndex) => {
+      if (!validNodeTypes.has(injected.event.type)) {
+        issues.push({
+          level: "error",
+          path: `${prefix}.testCases[${index}].injectedEvents[${eventIndex}]`,
+          message: `Unknown event type: ${injected.event.type}`
+        });
+      }
+    });
+    const ownerId = testCase.initialState.ownerId;
+    if (ownerId && !team.some((member) => member.id === ownerId)) {
+      issues.push({
+        level: "warning",
+        path: `${prefix}.testCases[${index}].initialState.ownerId`,
+        message: `Contact owner ${ownerId} is not on the team roster`
+      });
+    }
+    [
+      ...(testCase.expect.tasksCreated ?? []).map((expectation) => expectation.assignedTo),
+      ...(testCase.expect.notifications ?? []).map((expectation) => expectation.recipient)
+    ].forEach((person) => {
+      if (person && !isTeamMember(team, person)) {
+        issues.push({
+          level: "warning",
+          path: `${prefix}.testCases[${index}].expect`,
+          message: `Expected assignee ${person} is not on the team roster`
+        });
+      }
+    });
+    const appointmentStatus = testCase.initialState.appointment?.status;
+    if (
+      appointmentStatus &&
+      !APPOINTMENT_STATUSES.some((status) => status.value === appointmentStatus)
+    ) {
+      issues.push({
+        level: "error",
+        path: `${prefix}.testCases[${index}].initialState.appointment`,
+        message: `Unknown appointment status: ${appointmentStatus}`
+      });
+    }
+    [
+      ...(testCase.initialState.opportunities ?? []),
+      ...(testCase.expect.opportunityStageIs ?? [])
+    ].forEach((opportunity) => {
+      if (opportunity.status && !opportunityStatuses.has(opportunity.status)) {
+        issues.push({
+          level: "error",
+          path: `${prefix}.testCases[${index}]`,
+          message: `Unknown opportunity status: ${opportunity.status}`
+        });
+      }
+    });
+    if (testCase.timezone && !isValidTimeZone(testCase.timezone)) {
+      issues.push({
+        level: "error",
+        path: `${prefix}.testCases[${index}].timezone`,
+        message: `Unknown time zone: ${testCase.timezone}`
+      });
+    }
+    testCase.expect.fieldsGreaterThan?.forEach((expectation) => {
+      if (typeof expectation.value !== "number") {
+        issues.push({
+          level: "error",
+          path: `${prefix}.testCases[${index}].expect.fieldsGreaterThan`,
+          message: `fieldsGreaterThan needs a number for ${expectation.fieldKey}`
+        });
+      }
+      const canChangeNumber = scenario.allowedNodes.actions.some(
+        (type) => type === "field.update" || type === "field.increment"
+      );
+      const startsAbove =
+        Number(testCase.initialState.fields?.[expectation.fieldKey]) > expectation.value;
+      if (!canChangeNumber && !startsAbove) {
+        issues.push({
+          level: "warning",
+          path: `${prefix}.testCases[${index}].expect.fieldsGreaterThan`,
+          message: `No allowed action can raise ${expectation.fieldKey}; allow ${getNodeDisplayName(
+            "field.increment"
+          )} or ${getNodeDisplayName("field.update")}.`
+        });
+      }
+    });
+    const contactNames = new Set<string>();
+    testCase.contacts?.forEach((contact, contactIndex) => {
+      const path = `${prefix}.testCases[${index}].contacts[${contactIndex}]`;
+      if (contactNames.has(contact.name)) {
+        issues.push({ level: "error", path, message: `Duplicate contact name: ${contact.name}` });
+      }
+      contactNames.add(contact.name);
+      if (contact.event && !validNodeTypes.has(contact.event.type)) {
+        issues.push({ level: "error", path, message: `Unknown event type: ${contact.event.type}` });
+      }
+      if (contact.atSeconds !== undefined && contact.atSeconds < 0) {
+        issues.push({ level: "error", path, message: "atSeconds cannot be negative" });
+      }
+    });
+    testCase.expect.contactsReleased?.forEach((expectation) => {
+      const contactCount = testCase.contacts?.length || 1;
+      if (expectation.count > contactCount) {
+        issues.push({
+          level: "error",
+          path: `${prefix}.testCases[${index}].expect.contactsReleased`,
+          message: `Expects ${expectation.count} contacts through by +${expectation.bySeconds}s but the test case has ${contactCount}`
+        });
+      }
+      if (!scenario.allowedNodes.logic.includes("drip")) {
+        issues.push({
+          level: "warning",
+          path: `${prefix}.testCases[${index}].expect.contactsReleased`,
+          message: `contactsReleased counts contacts out of a ${getNodeDisplayName(
+            "drip"
+          )} step, but drip is not an allowed node`
+        });
+      }
+    });
+    testCase.enrollmentHistory?.forEach((entry) => {
+      if (!workflowIds.includes(entry.workflowId)) {
+        issues.push({
+          level: "error",
+          path: `${prefix}.testCases[${index}].enrollmentHistory`,
+          message: `Unknown workflow in enrollment history: ${entry.workflowId}`
+        });
+      }
+    });
     Object.keys(testCase.expect).forEach((key) => {
       if (!allowedExpectationKeys.has(key)) {
         issues.push({
@@ -143,14 +332,98 @@ const lintScenario = (scenario: Scenario, prefix: string): ScenarioLintIssue[] =
   return issues;
 };
 
+// Runs every test case against the reference solution so authors notice a
+// suite that never reaches a step or If/Else path of the intended answer.
+const lintCoverage = (
+  entries: { workflowId: string; scenario: Scenario; prefix: string }[],
+  team?: ScenarioTeamMember[]
+): ScenarioLintIssue[] => {
+  const workflows = entries.flatMap((entry) =>
+    entry.scenario.referenceSolution
+      ? [{ workflowId: entry.workflowId, graph: entry.scenario.referenceSolution }]
+      : []
+  );
+  if (!workflows.length) {
+    return [];
+  }
+  const testCases = entries.flatMap((entry) => entry.scenario.testCases);
+  return runCoverage(workflows, testCases, team).flatMap((report) => {
+    const entry = entries.find((item) => item.workflowId === report.workflowId)!;
+    const path = `${entry.prefix}.referenceSolution`;
+    return [
+      ...report.uncoveredNodes.map((node) => ({
+        level: "warning" as const,
+        path,
+        message: `No test case runs reference step ${getNodeDisplayName(node.nodeType)} (${
+          node.nodeId
+        })`
+      })),
+      ...report.uncoveredBranches.map((branch) => ({
+        level: "warning" as const,
+        path,
+        message: `No test case takes the "${branch.label}" path of ${getNodeDisplayName(
+          "ifElse"
+        )} (${branch.nodeId})`
+      }))
+    ];
+  });
+};
+
+// Reference solutions that start each other in a loop would only be stopped
+// by the simulator's run cap, so the loop is reported before any test runs.
+const lintWorkflowLoops = (
+  entries: { workflowId: string; scenario: Scenario; prefix: string }[]
+): ScenarioLintIssue[] => {
+  const map = buildWorkflowMap(
+    entries.flatMap((entry) =>
+      entry.scenario.referenceSolution
+        ? [{ workflowId: entry.workflowId, graph: entry.scenario.referenceSolution }]
+        : []
+    )
+  );
+  return map.loops.map((loop) => {
+    const entry = entries.find((item) => item.workflowId === loop.workflowIds[0])!;
+    const route = [...loop.workflowIds, loop.workflowIds[0]].join(" -> ");
+    return {
+      level: loop.repeats ? ("error" as const) : ("warning" as const),
+      path: `${entry.prefix}.referenceSolution`,
+      message: `Reference workflows start each other in a loop: ${route}${
+        loop.repeats ? " (re-entry is on, so it repeats until the run cap)" : ""
+      }`
+    };
+  });
+};
+
 export const lintScenarioDefinition = (
   definition: ScenarioDefinition
 ): ScenarioLintIssue[] => {
   if ("workflows" in definition) {
     const bundle = definition as ScenarioBundle;
-    return bundle.workflows.flatMap((workflow, index) =>
-      lintScenario(workflow.scenario, `workflows[${index}]`)
-    );
+    const workflowIds = bundle.workflows.map((workflow) => workflow.workflowId);
+    const entries = bundle.workflows.map((workflow, index) => ({
+      workflowId: workflow.workflowId,
+      scenario: workflow.scenario,
+      prefix: `workflows[${index}]`
+    }));
+    return [
+      ...lintTeam(bundle.team ?? [], "team"),
+      ...bundle.workflows.flatMap((workflow, index) =>
+        lintScenario(
+          workflow.scenario,
+          `workflows[${index}]`,
+          workflowIds,
+          bundle.team ?? workflow.scenario.team
+        )
+      ),
+      ...lintCoverage(entries, bundle.team),
+      ...lintWorkflowLoops(entries)
+    ];
   }
-  return lintScenario(definition as Scenario, "scenario");
+  const scenario = definition as Scenario;
+  return [
+    ...lintTeam(scenario.team ?? [], "scenario.team"),
+    ...lintScenario(scenario, "scenario", ["main"], scenario.team),
+    ...lintCoverage([{ workflowId: "main", scenario, prefix: "scenario" }], scenario.team),
+    ...lintWorkflowLoops([{ workflowId: "main", scenario, prefix: "scenario" }])
+  ];
 };
@@ -1,4 +1,10 @@
-import type { NodeType } from "@/lib/workflowTypes";
+import type {
+  AppointmentStatus,
+  ConditionRule,
+  NodeType,
+  OpportunityStatus,
+  WorkflowGraph
+} from "@/lib/workflowTypes";
 
 export type AllowedNodes = {
   triggers: NodeType[];
@@ -16,7 +22,14 @@ export type ScenarioRequirement =
   | { type: "mustContainIfElse"; minCount?: number }
   | { type: "branchCountAtLeast"; nodeType: "ifElse"; count: number }
   | { type: "pathMustInclude"; nodeTypes: NodeType[] }
-  | { type: "requireStopPath" };
+  | { type: "requireStopPath" }
+  | {
+      type: "conditionUsesOperator";
+      operator: ConditionRule["type"];
+      fieldKey?: string;
+      tag?: string;
+    }
+  | { type: "enrollsWorkflow"; workflowId: string };
 
 export type ScenarioHint = {
   level: number;
@@ -28,21 +41,67 @@ export type ScenarioTestCaseEvent = {
   [key: string]: unknown;
 };
 
+export type ScenarioTeamMember = {
+  id: string;
+  name: string;
+  role?: string;
+  available?: boolean;
+};
+
 export type ScenarioInitialState = {
+  ownerId?: string;
   tags?: string[];
   fields?: Record<string, string | number | boolean | null>;
+  appointment?: {
+    status?: AppointmentStatus;
+    startTime?: string;
+    calendarName?: string;
+    calendarId?: string;
+  };
+  opportunities?: {
+    pipelineName: string;
+    stageName: string;
+    value?: number;
+    status?: OpportunityStatus;
+  }[];
 };
 
 export type ScenarioExpected = {
-  messages?: { channel: "sms" | "email"; contains: string[] }[];
+  messages?: {
+    channel: "sms" | "email";
+    contains: string[];
+    sentAt?: string;
+    atSeconds?: number;
+  }[];
   tagsAdded?: string[];
   tagsRemoved?: string[];
   fieldsEqual?: { fieldKey: string; value: string | number | boolean | null }[];
-  tasksCreated?: { contains: string[] }[];
-  notifications?: { contains: string[] }[];
+  fieldsGreaterThan?: { fieldKey: string; value: number }[];
+  opportunityStageIs?: {
+    pipelineName?: string;
+    stageName: string;
+    status?: OpportunityStatus;
+  }[];
+  tasksCreated?: { contains: string[]; assignedTo?: string }[];
+  notifications?: { contains: string[]; recipient?: string }[];
   webhooksFired?: { urlContains: string[] }[];
   systemTasksCreated?: { contains: string[] }[];
   systemNotifications?: { contains: string[] }[];
+  workflowsSkipped?: string[];
+  workflowsStopped?: string[];
+  splitDistribution?: {
+    contacts: number;
+    paths: Record<string, number>;
+    tolerance: number;
+  };
+  contactsReleased?: { bySeconds: number; count: number }[];
+};
+
+export type ScenarioBatchContact = {
+  name: string;
+  event?: ScenarioTestCaseEvent;
+  initialState?: ScenarioInitialState;
+  atSeconds?: number;
 };
 
 export type ScenarioTestCase = {
@@ -51,6 +110,12 @@ export type ScenarioTestCase = {
   initialState: ScenarioInitialState;
   expect: ScenarioExpected;
   injectedEvents?: { atSeconds: number; event: ScenarioTestCaseEvent }[];
+  startAt?: string;
+  timezone?: string;
+  enrollmentHistory?: { workflowId: string; status: "active" | "completed" }[];
+  seed?: number;
+  splitPath?: string;
+  contacts?: ScenarioBatchContact[];
   notes?: string;
 };
 
@@ -66,6 +131,8 @@ export type Scenario = {
   testCases: ScenarioTestCase[];
   teachBackPrompt: string;
   hints: ScenarioHint[];
+  team?: ScenarioTeamMember[];
+  referenceSolution?: WorkflowGraph;
   adminNotes?: {
     acceptableVariants?: string[];
     commonMistakes?: string[];
@@ -81,6 +148,7 @@ export type ScenarioBundle = {
   moduleId: string;
   title: string;
   workflows: ScenarioWorkflowBundle[];
+  team?: ScenarioTeamMember[];
   systemRules?: {
     autoTriggerOnTagAdded?: boolean;
   };
@@ -0,0 +1,32 @@
+export const DEFAULT_SEED = 1;
+
+/**
+ * Small deterministic generator (mulberry32). The same seed always gives the
+ * same sequence, so split tests replay identically.
+ */
+export const createSeededRandom = (seed: number = DEFAULT_SEED) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const pickWeighted = <T extends { weight: number }>(items: T[], roll: number) => {
+  const weighted = items.filter((item) => item.weight > 0);
+  const total = weighted.reduce((sum, item) => sum + item.weight, 0);
+  if (!total) {
+    return null;
+  }
+  let cursor = roll * total;
+  for (const item of weighted) {
+    cursor -= item.weight;
+    if (cursor < 0) {
+      return item;
+    }
+  }
+  return weighted[weighted.length - 1];
+};
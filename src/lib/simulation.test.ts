@@ -0,0 +1,1020 @@
+import { describe, expect, it } from "vitest";
+import type { ScenarioInitialState, ScenarioTestCase } from "@/lib/scenarioTypes";
+import type {
+  ConditionGroup,
+  ConditionRule,
+  WorkflowGraph,
+  WorkflowNode
+} from "@/lib/workflowTypes";
+import {
+  continueSimulationRun,
+  runSimulationTestCase,
+  simulateBatch,
+  simulateWorkflows,
+  startSimulationRun,
+  toBreakpointKey,
+  describeStateChange,
+  type SimulationOptions,
+  type SimulationRun
+} from "@/lib/simulation";
+import { line, node } from "@/lib/testFixtures";
+
+const created = { type: "contact.created" as const };
+
+const only = (graph: WorkflowGraph) => [{ workflowId: "main", graph }];
+
+const all = (...rules: ConditionRule[]): ConditionGroup => ({ anyAll: "all", rules });
+
+// Runs an If/Else with one branch and reports whether the contact took it.
+const takesBranch = (
+  condition: ConditionGroup,
+  initialState: ScenarioInitialState,
+  options?: SimulationOptions
+) => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("check", "ifElse", "logic", {
+        elseEnabled: true,
+        branches: [{ id: "yes", label: "Yes", condition }]
+      })
+    ],
+    edges: [line("trigger", "check")]
+  };
+  const entry = simulateWorkflows(only(graph), created, initialState, options).timeline.find(
+    (item) => item.nodeId === "check"
+  );
+  return entry?.ifElseTrace?.outcome === "branch";
+};
+
+describe("quiet hours", () => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("sms", "sms.send", "action", { body: "Hi" })
+    ],
+    edges: [line("trigger", "sms")],
+    settings: { quietHours: { start: "21:00", end: "08:00" } }
+  };
+
+  it("defers a send inside the window to the window end", () => {
+    const result = simulateWorkflows(only(graph), created, {}, { startAt: "2024-01-01T22:30" });
+    expect(result.finalState.messages).toMatchObject([
+      { timestamp: 9.5 * 3600, sentAt: "2024-01-02T08:00:00" }
+    ]);
+    expect(result.timeline.map((entry) => entry.summary)).toContain(
+      "Send SMS deferred (quiet hours)"
+    );
+  });
+
+  it("sends right away outside the window or without quiet hours", () => {
+    const daytime = simulateWorkflows(only(graph), created, {}, { startAt: "2024-01-01T12:00" });
+    expect(daytime.finalState.messages[0].timestamp).toBe(0);
+    const noQuietHours = { ...graph, settings: undefined };
+    const lateNight = { startAt: "2024-01-01T23:00" };
+    const night = simulateWorkflows(only(noQuietHours), created, {}, lateNight);
+    expect(night.finalState.messages[0].timestamp).toBe(0);
+  });
+
+  it("checks sentAt in test cases", () => {
+    const testCase: ScenarioTestCase = {
+      name: "Night",
+      event: created,
+      initialState: {},
+      startAt: "2024-01-01T22:30",
+      expect: { messages: [{ channel: "sms", contains: ["Hi"], sentAt: "2024-01-02T08:00" }] }
+    };
+    expect(runSimulationTestCase(only(graph), testCase).comparison.passed).toBe(true);
+    const early = { ...testCase, startAt: "2024-01-01T20:00" };
+    expect(runSimulationTestCase(only(graph), early).comparison.errors).toEqual([
+      "SMS should be sent at 2024-01-02T08:00."
+    ]);
+  });
+});
+
+describe("re-entry", () => {
+  const graph = (allowReentry?: boolean): WorkflowGraph => ({
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("sms", "sms.send", "action", { body: "Welcome" })
+    ],
+    edges: [line("trigger", "sms")],
+    settings: { allowReentry }
+  });
+  const completed = { enrollmentHistory: [{ workflowId: "main", status: "completed" as const }] };
+
+  it("skips a contact who already went through the workflow", () => {
+    const result = simulateWorkflows(only(graph()), created, {}, completed);
+    expect(result.finalState.messages).toEqual([]);
+    expect(result.finalState.workflowsSkipped).toEqual(["main"]);
+    expect(result.timeline[0].summary).toBe("Skipped: contact already enrolled");
+  });
+
+  it("lets the contact in again when re-entry is on", () => {
+    const result = simulateWorkflows(only(graph(true)), created, {}, completed);
+    expect(result.finalState.messages).toHaveLength(1);
+    expect(result.finalState.workflowsSkipped).toEqual([]);
+  });
+
+  it("enrolls once when two triggers match the same event", () => {
+    const twoTriggers: WorkflowGraph = {
+      ...graph(),
+      nodes: [...graph().nodes, node("trigger2", "contact.created", "trigger")],
+      edges: [...graph().edges, line("trigger2", "sms")]
+    };
+    const result = simulateWorkflows(only(twoTriggers), created, {});
+    expect(result.finalState.messages).toHaveLength(1);
+    expect(result.finalState.workflowsSkipped).toEqual([]);
+    expect(result.timeline.map((entry) => entry.summary)).not.toContain(
+      "Skipped: contact already enrolled"
+    );
+  });
+
+  it("checks workflowsSkipped in test cases", () => {
+    const testCase: ScenarioTestCase = {
+      name: "Returning",
+      event: created,
+      initialState: {},
+      enrollmentHistory: [{ workflowId: "main", status: "active" }],
+      expect: { workflowsSkipped: ["main"] }
+    };
+    expect(runSimulationTestCase(only(graph()), testCase).comparison.passed).toBe(true);
+  });
+});
+
+describe("stop on response", () => {
+  const followUp = (stopOnResponse?: boolean): WorkflowGraph => ({
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("wait", "wait.duration", "logic", { durationSeconds: 3600 }),
+      node("sms", "sms.send", "action", { body: "Following up" })
+    ],
+    edges: [line("trigger", "wait"), line("wait", "sms")],
+    settings: { stopOnResponse }
+  });
+  const replyAt = (atSeconds: number) => ({
+    injectedEvents: [{ atSeconds, event: { type: "conversation.reply" as const } }]
+  });
+
+  it("cancels the pending steps of workflows that stop on response", () => {
+    const result = simulateWorkflows(
+      [
+        { workflowId: "stops", graph: followUp(true) },
+        { workflowId: "keeps", graph: followUp(false) }
+      ],
+      created,
+      {},
+      replyAt(60)
+    );
+    expect(result.finalState.messages.map((message) => message.workflowId)).toEqual(["keeps"]);
+    expect(result.finalState.workflowsStopped).toEqual(["stops"]);
+    const cancelled = result.timeline.find(
+      (entry) => entry.workflowId === "stops" && entry.nodeId === "sms"
+    );
+    expect(cancelled?.summary).toBe("Stopped on response: cancelled wait");
+  });
+
+  it("does nothing once the workflow has finished", () => {
+    const result = simulateWorkflows(only(followUp(true)), created, {}, replyAt(7200));
+    expect(result.finalState.messages).toHaveLength(1);
+    expect(result.finalState.workflowsStopped).toEqual([]);
+  });
+});
+
+describe("If/Else operators", () => {
+  it("compares text fields without case and treats a missing field as no match", () => {
+    const source = { fields: { source: "Facebook Ads" } };
+    expect(
+      takesBranch(all({ type: "fieldContains", fieldKey: "source", value: "face" }), source)
+    ).toBe(true);
+    expect(
+      takesBranch(all({ type: "fieldStartsWith", fieldKey: "source", value: "ads" }), source)
+    ).toBe(false);
+    expect(takesBranch(all({ type: "fieldContains", fieldKey: "nope", value: "" }), source)).toBe(
+      false
+    );
+    expect(
+      takesBranch(all({ type: "fieldNotEquals", fieldKey: "source", value: "Google" }), source)
+    ).toBe(true);
+  });
+
+  it("compares numbers and never matches an empty or non-numeric field", () => {
+    const over = all({ type: "greaterThan", fieldKey: "score", value: 10 });
+    const under = all({ type: "lessThan", fieldKey: "score", value: 10 });
+    expect(takesBranch(over, { fields: { score: 11 } })).toBe(true);
+    expect(takesBranch(under, { fields: { score: "9" } })).toBe(true);
+    expect(takesBranch(over, { fields: { score: "" } })).toBe(false);
+    expect(takesBranch(under, { fields: { score: "n/a" } })).toBe(false);
+  });
+
+  it("compares dates against the simulated clock", () => {
+    const startAt = { startAt: "2024-01-31T09:00" };
+    const lastVisit = (value: string) => ({ fields: { last_visit: value } });
+    const olderThanWeek = all({ type: "dateBefore", fieldKey: "last_visit", daysAgo: 7 });
+    const withinWeek = all({ type: "dateAfter", fieldKey: "last_visit", daysAgo: 7 });
+    expect(takesBranch(olderThanWeek, lastVisit("2024-01-10"), startAt)).toBe(true);
+    expect(takesBranch(withinWeek, lastVisit("2024-01-10"), startAt)).toBe(false);
+    expect(takesBranch(withinWeek, lastVisit("2024-01-30"), startAt)).toBe(true);
+    expect(takesBranch(olderThanWeek, lastVisit("not a date"), startAt)).toBe(false);
+  });
+
+  it("checks empty fields and the appointment status", () => {
+    expect(
+      takesBranch(all({ type: "isEmpty", fieldKey: "email" }), { fields: { email: "" } })
+    ).toBe(true);
+    const cancelled = all({ type: "appointmentStatusIs", status: "cancelled" });
+    expect(takesBranch(cancelled, { appointment: { status: "cancelled" } })).toBe(true);
+    expect(takesBranch(cancelled, {})).toBe(false);
+  });
+});
+
+describe("nested condition groups", () => {
+  const either: ConditionGroup = {
+    anyAll: "any",
+    rules: [],
+    groups: [
+      all({ type: "tagExists", tag: "vip" }, { type: "greaterThan", fieldKey: "score", value: 50 }),
+      all({ type: "fieldEquals", fieldKey: "source", value: "referral" })
+    ]
+  };
+
+  it("matches when any inner group has all its rules met", () => {
+    expect(takesBranch(either, { tags: ["vip"], fields: { score: 80 } })).toBe(true);
+    expect(takesBranch(either, { fields: { source: "referral" } })).toBe(true);
+    expect(takesBranch(either, { tags: ["vip"], fields: { score: 10 } })).toBe(false);
+  });
+
+  it("ignores empty inner groups", () => {
+    const onlyEmpty: ConditionGroup = {
+      anyAll: "all",
+      rules: [{ type: "tagExists", tag: "vip" }],
+      groups: [all()]
+    };
+    expect(takesBranch(onlyEmpty, { tags: ["vip"] })).toBe(true);
+  });
+});
+
+describe("If/Else trace", () => {
+  const traceFor = (elseEnabled: boolean, initialState: ScenarioInitialState) => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("check", "ifElse", "logic", {
+          elseEnabled,
+          branches: [
+            {
+              id: "vip",
+              label: "VIP",
+              condition: all(
+                { type: "tagExists", tag: "vip" },
+                { type: "greaterThan", fieldKey: "score", value: 50 }
+              )
+            },
+            {
+              id: "ads",
+              label: "Ads",
+              condition: {
+                anyAll: "any",
+                rules: [],
+                groups: [all({ type: "fieldEquals", fieldKey: "source", value: "Facebook" }), all()]
+              }
+            }
+          ]
+        })
+      ],
+      edges: [line("trigger", "check")]
+    };
+    return simulateWorkflows(only(graph), created, initialState).timeline.find(
+      (entry) => entry.nodeId === "check"
+    )?.ifElseTrace;
+  };
+
+  it("records each rule with the contact's actual value up to the matching branch", () => {
+    const trace = traceFor(true, { tags: ["vip"], fields: { source: "Facebook" } });
+    expect(trace).toMatchObject({ outcome: "branch", branchId: "ads" });
+    expect(trace?.branches[0]).toMatchObject({
+      branchId: "vip",
+      passed: false,
+      condition: {
+        rules: [
+          { description: "has tag vip", actual: "tag present", passed: true },
+          { actual: "(empty)", passed: false }
+        ]
+      }
+    });
+    // Empty inner groups are left out of the trace.
+    expect(trace?.branches[1].condition.groups).toMatchObject([
+      { passed: true, rules: [{ actual: '"Facebook"', passed: true }] }
+    ]);
+  });
+
+  it("stops at the first matching branch", () => {
+    const trace = traceFor(true, { tags: ["vip"], fields: { score: "80", source: "Facebook" } });
+    expect(trace?.branches.map((branch) => branch.branchId)).toEqual(["vip"]);
+  });
+
+  it("says whether a contact with no match took Else or stopped", () => {
+    expect(traceFor(true, {})?.outcome).toBe("else");
+    const trace = traceFor(false, {});
+    expect(trace).toMatchObject({ outcome: "none", branchId: undefined });
+    expect(trace?.branches.map((branch) => branch.passed)).toEqual([false, false]);
+  });
+});
+
+describe("step-through debugging", () => {
+  // Lists where each call to Continue pauses, as workflowId:nodeId.
+  const pausesOf = (run: SimulationRun, breakpoints: string[]) => {
+    const pauses: string[] = [];
+    let next = continueSimulationRun(run, new Set(breakpoints));
+    while (!next.done) {
+      pauses.push(toBreakpointKey(next.value.workflowId, next.value.node.id));
+      next = continueSimulationRun(run, new Set(breakpoints));
+    }
+    return pauses;
+  };
+
+  it("pauses only in the workflow the breakpoint was set in", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("tag", "tag.add", "action", { tag: "seen" })
+      ],
+      edges: [line("trigger", "tag")]
+    };
+    const workflows = [
+      { workflowId: "first", graph },
+      { workflowId: "second", graph }
+    ];
+    const run = startSimulationRun(workflows, {
+      name: "Debug",
+      event: created,
+      initialState: {},
+      expect: {}
+    });
+    expect(pausesOf(run, [toBreakpointKey("second", "tag")])).toEqual(["second:tag"]);
+  });
+
+  it("pauses once on a send that quiet hours defer", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("sms", "sms.send", "action", { body: "Hi" })
+      ],
+      edges: [line("trigger", "sms")],
+      settings: { quietHours: { start: "21:00", end: "08:00" } }
+    };
+    const testCase: ScenarioTestCase = {
+      name: "Late",
+      event: created,
+      initialState: {},
+      startAt: "2024-01-01T22:30",
+      expect: {}
+    };
+    const run = startSimulationRun(only(graph), testCase);
+    const first = continueSimulationRun(run, new Set(["main:sms"]));
+    // The pause comes when the send runs, after the deferral is logged.
+    expect(first.done ? null : first.value.time).toBe(9.5 * 3600);
+    expect(pausesOf(run, ["main:sms"])).toEqual([]);
+  });
+});
+
+describe("state snapshots", () => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("swap", "tag.remove", "action", { tag: "new" }),
+      node("status", "field.update", "action", { fieldKey: "status", value: "won" }),
+      node("sms", "sms.send", "action", { body: "Hi" })
+    ],
+    edges: [line("trigger", "swap"), line("swap", "status"), line("status", "sms")]
+  };
+  const result = simulateWorkflows(only(graph), created, {
+    tags: ["new"],
+    fields: { status: "open" }
+  });
+  const entryFor = (nodeId: string) => result.timeline.find((entry) => entry.nodeId === nodeId);
+
+  it("keeps the contact as it was before the first step", () => {
+    expect(result.startSnapshot).toMatchObject({ tags: ["new"], fields: { status: "open" } });
+  });
+
+  it("records the contact after each step and what the step changed", () => {
+    expect(entryFor("swap")).toMatchObject({
+      snapshot: { tags: [], fields: { status: "open" } },
+      changes: [{ kind: "tagRemoved", tag: "new" }]
+    });
+    expect(entryFor("status")?.changes?.map(describeStateChange)).toEqual([
+      "field status: open → won"
+    ]);
+    expect(entryFor("sms")).toMatchObject({ snapshot: { fields: { status: "won" } } });
+    expect(entryFor("sms")?.changes).toBeUndefined();
+  });
+
+  it("describes each kind of change in one line", () => {
+    expect(describeStateChange({ kind: "tagAdded", tag: "vip" })).toBe("+tag vip");
+    expect(
+      describeStateChange({ kind: "fieldChanged", fieldKey: "note", from: null, to: "" })
+    ).toBe('field note: null → ""');
+    expect(
+      describeStateChange({
+        kind: "opportunityChanged",
+        pipelineName: "Sales",
+        from: "New",
+        to: "Won",
+        status: "won"
+      })
+    ).toBe("opportunity Sales: New → Won (won)");
+    expect(
+      describeStateChange({ kind: "appointmentChanged", from: "scheduled", to: "noShow" })
+    ).toBe("appointment: scheduled → no-show");
+  });
+});
+
+describe("goals", () => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("sms", "sms.send", "action", { body: "Book a call" }),
+      node("wait", "wait.duration", "logic", { durationSeconds: 86400 }),
+      node("nudge", "sms.send", "action", { body: "Still there?" }),
+      node("goal", "goal", "logic", { condition: all({ type: "tagExists", tag: "booked" }) }),
+      node("email", "email.send", "action", { subject: "Booked", body: "See you soon" })
+    ],
+    edges: [
+      line("trigger", "sms"),
+      line("sms", "wait"),
+      line("wait", "nudge"),
+      line("goal", "email")
+    ]
+  };
+  const run = (tags: string[]) => simulateWorkflows(only(graph), created, { tags });
+  const bodies = (tags: string[]) => run(tags).finalState.messages.map((message) => message.body);
+
+  it("jumps right after the trigger when the goal is already met at enrollment", () => {
+    expect(bodies([])).toEqual(["Book a call", "Still there?"]);
+    expect(bodies(["booked"])).toEqual(["See you soon"]);
+    expect(
+      run(["booked"])
+        .timeline.map((entry) => entry.summary)
+        .slice(0, 2)
+    ).toEqual(["Trigger fired: Contact Created", "Goal met: jumped to Goal Event"]);
+  });
+});
+
+describe("Add To Workflow", () => {
+  const handoff = (workflowId: string): WorkflowGraph => ({
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("enroll", "workflow.enroll", "action", { workflowId }),
+      node("enrollAgain", "workflow.enroll", "action", { workflowId })
+    ],
+    edges: [line("trigger", "enroll"), line("enroll", "enrollAgain")]
+  });
+  const onboarding: WorkflowGraph = {
+    nodes: [
+      node("trigger", "form.submitted", "trigger"),
+      node("sms", "sms.send", "action", { body: "Welcome aboard" })
+    ],
+    edges: [line("trigger", "sms")]
+  };
+  const run = (workflowId: string) =>
+    simulateWorkflows(
+      [
+        { workflowId: "main", graph: handoff(workflowId) },
+        { workflowId: "onboard", graph: onboarding }
+      ],
+      created,
+      {}
+    );
+
+  it("starts the target after its trigger and counts the trigger as run", () => {
+    const result = run("onboard");
+    expect(result.finalState.messages.map((message) => message.body)).toEqual(["Welcome aboard"]);
+    expect(result.executedByWorkflow.onboard).toEqual(["trigger", "sms"]);
+    expect(result.timeline).toContainEqual(
+      expect.objectContaining({
+        workflowId: "onboard",
+        nodeId: "trigger",
+        summary: "Trigger fired: Form Submitted"
+      })
+    );
+  });
+
+  it("follows the target's re-entry setting", () => {
+    expect(run("onboard").finalState.workflowsSkipped).toEqual(["onboard"]);
+  });
+
+  it("warns when the target is not in the bundle", () => {
+    expect(run("missing").timeline).toContainEqual(
+      expect.objectContaining({
+        nodeId: "enroll",
+        level: "warning",
+        summary: "Enroll skipped: workflow missing not found"
+      })
+    );
+  });
+});
+
+describe("Split", () => {
+  const split = (weights: [number, number]): WorkflowGraph => ({
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("split", "split", "logic", {
+        paths: [
+          { id: "a", label: "Path A", weight: weights[0] },
+          { id: "b", label: "Path B", weight: weights[1] }
+        ]
+      })
+    ],
+    edges: [line("trigger", "split")]
+  });
+  const pathTaken = (graph: WorkflowGraph, options: SimulationOptions) =>
+    simulateWorkflows(only(graph), created, {}, options).timeline.find(
+      (entry) => entry.nodeId === "split"
+    )?.splitPath?.label;
+
+  it("takes the same path for the same seed", () => {
+    const graph = split([50, 50]);
+    const seeds = Array.from({ length: 20 }, (_, seed) => pathTaken(graph, { seed }));
+    expect(seeds).toEqual(Array.from({ length: 20 }, (_, seed) => pathTaken(graph, { seed })));
+    expect(new Set(seeds)).toEqual(new Set(["Path A", "Path B"]));
+  });
+
+  it("takes a pinned path by label and never a path with no weight", () => {
+    expect(pathTaken(split([100, 0]), { splitPath: "path b" })).toBe("Path B");
+    expect(pathTaken(split([0, 100]), { seed: 7 })).toBe("Path B");
+    expect(pathTaken(split([0, 0]), {})).toBeUndefined();
+  });
+
+  it("checks splitDistribution over seeded contacts", () => {
+    const testCase = (paths: Record<string, number>): ScenarioTestCase => ({
+      name: "Split",
+      event: created,
+      initialState: {},
+      expect: { splitDistribution: { contacts: 200, paths, tolerance: 10 } }
+    });
+    const graph = split([70, 30]);
+    const check = (paths: Record<string, number>) =>
+      runSimulationTestCase(only(graph), testCase(paths)).comparison;
+    expect(check({ "Path A": 70, "Path B": 30 }).passed).toBe(true);
+    expect(check({ "Path A": 30 }).errors).toEqual([
+      expect.stringMatching(/^Split path Path A should get 30% ± 10% of 200 contacts/)
+    ]);
+  });
+});
+
+describe("field and tag actions", () => {
+  const steps = (...actions: WorkflowNode[]): WorkflowGraph => ({
+    nodes: [node("trigger", "contact.created", "trigger"), ...actions],
+    edges: actions.map((action, index) =>
+      line(index ? actions[index - 1].id : "trigger", action.id)
+    )
+  });
+  const increase = (id: string, amount: number) =>
+    node(id, "field.increment", "action", { fieldKey: "score", amount });
+
+  it("increases a number field, starting an empty field at 0", () => {
+    const graph = steps(increase("up", 5), increase("down", -2));
+    expect(simulateWorkflows(only(graph), created, {}).finalState.fields.score).toBe(3);
+    expect(
+      simulateWorkflows(only(graph), created, { fields: { score: "10" } }).finalState.fields.score
+    ).toBe(13);
+  });
+
+  it("skips an increase on a field that is not a number", () => {
+    const result = simulateWorkflows(only(steps(increase("up", 5))), created, {
+      fields: { score: "high" }
+    });
+    expect(result.finalState.fields.score).toBe("high");
+    expect(result.timeline).toContainEqual(
+      expect.objectContaining({
+        level: "warning",
+        summary: "Increase skipped: score is not a number"
+      })
+    );
+  });
+
+  it("clears a field to null", () => {
+    const graph = steps(node("clear", "field.clear", "action", { fieldKey: "score" }));
+    expect(
+      simulateWorkflows(only(graph), created, { fields: { score: 4 } }).finalState.fields.score
+    ).toBeNull();
+  });
+
+  it("toggles a tag off when present and on when missing", () => {
+    const graph = steps(node("toggle", "tag.toggle", "action", { tag: "vip" }));
+    const on = simulateWorkflows(only(graph), created, {}).finalState;
+    expect(on).toMatchObject({ tags: ["vip"], tagsAdded: ["vip"] });
+    const off = simulateWorkflows(only(graph), created, { tags: ["vip"] }).finalState;
+    expect(off).toMatchObject({ tags: [], tagsRemoved: ["vip"] });
+  });
+
+  it("starts Contact Tag workflows only when the toggle adds the tag", () => {
+    const onTag: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.tagAdded", "trigger", { tag: "vip" }),
+        node("sms", "sms.send", "action", { body: "Welcome, VIP" })
+      ],
+      edges: [line("trigger", "sms")]
+    };
+    const run = (tags: string[]) =>
+      simulateWorkflows(
+        [
+          {
+            workflowId: "main",
+            graph: steps(node("toggle", "tag.toggle", "action", { tag: "vip" }))
+          },
+          { workflowId: "vip", graph: onTag }
+        ],
+        created,
+        { tags }
+      ).finalState.messages.length;
+    expect(run([])).toBe(1);
+    expect(run(["vip"])).toBe(0);
+  });
+});
+
+describe("email engagement triggers", () => {
+  const welcome: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("email", "email.send", "action", {
+        subject: "Welcome",
+        body: "Plans: https://example.com/pricing"
+      })
+    ],
+    edges: [line("trigger", "email")]
+  };
+  const followUp = (trigger: WorkflowNode): WorkflowGraph => ({
+    nodes: [trigger, node("sms", "sms.send", "action", { body: "Questions about pricing?" })],
+    edges: [line(trigger.id, "sms")]
+  });
+  const runWith = (
+    trigger: WorkflowNode,
+    event: ScenarioTestCase["event"],
+    workflows = [{ workflowId: "welcome", graph: welcome }]
+  ) =>
+    simulateWorkflows(
+      [...workflows, { workflowId: "followUp", graph: followUp(trigger) }],
+      created,
+      {},
+      { injectedEvents: [{ atSeconds: 60, event }] }
+    );
+
+  it("starts on an open or click of a sent email", () => {
+    const opened = node("trigger", "email.opened", "trigger", { emailNodeId: "email" });
+    expect(runWith(opened, { type: "email.opened" }).finalState.messages).toHaveLength(2);
+    const clicked = node("trigger", "email.clicked", "trigger", { linkContains: "/pricing" });
+    const result = runWith(clicked, { type: "email.clicked" });
+    expect(result.finalState.messages.map((message) => message.channel)).toEqual(["email", "sms"]);
+  });
+
+  it("does not start when the click is on another link", () => {
+    const clicked = node("trigger", "email.clicked", "trigger", { linkContains: "/pricing" });
+    const event = { type: "email.clicked" as const, url: "https://example.com/blog" };
+    expect(runWith(clicked, event).finalState.messages).toHaveLength(1);
+  });
+
+  it("ignores the event with a warning when no email was sent", () => {
+    const opened = node("trigger", "email.opened", "trigger");
+    const result = runWith(opened, { type: "email.opened" }, []);
+    expect(result.finalState.messages).toEqual([]);
+    expect(result.timeline).toContainEqual(
+      expect.objectContaining({
+        level: "warning",
+        summary: "Email Opened ignored: no matching email was sent"
+      })
+    );
+  });
+});
+
+describe("appointments", () => {
+  const booked = { type: "appointment.scheduled" as const, calendarName: "Demo" };
+  const reminders: WorkflowGraph = {
+    nodes: [
+      node("trigger", "appointment.scheduled", "trigger", { calendarName: "Demo" }),
+      node("wait", "wait.duration", "logic", { durationSeconds: 86400 }),
+      node("sms", "sms.send", "action", { body: "See you tomorrow" }),
+      node("goal", "goal", "logic", {
+        condition: all({ type: "appointmentStatusIs", status: "cancelled" })
+      })
+    ],
+    edges: [line("trigger", "wait"), line("wait", "sms")]
+  };
+  const run = (event: ScenarioTestCase["event"], injected?: ScenarioTestCase["event"]) =>
+    simulateWorkflows(
+      only(reminders),
+      event,
+      { appointment: { status: "scheduled", startTime: "2024-01-02T10:00" } },
+      { injectedEvents: injected ? [{ atSeconds: 60, event: injected }] : undefined }
+    );
+
+  it("starts only for the trigger's calendar", () => {
+    expect(run(booked).finalState.messages).toHaveLength(1);
+    expect(run({ ...booked, calendarName: "Support" }).finalState.messages).toEqual([]);
+  });
+
+  it("keeps the status and time from each appointment event", () => {
+    const moved = run(booked, {
+      type: "appointment.rescheduled",
+      startTime: "2024-01-03T09:00"
+    });
+    expect(moved.finalState.appointment).toEqual({
+      status: "rescheduled",
+      startTime: "2024-01-03T09:00",
+      calendarName: "Demo"
+    });
+  });
+
+  it("stops pending reminders through a goal on the cancelled status", () => {
+    const cancelled = run(booked, { type: "appointment.cancelled" });
+    expect(cancelled.finalState.appointment?.status).toBe("cancelled");
+    expect(cancelled.finalState.messages).toEqual([]);
+  });
+});
+
+describe("opportunities", () => {
+  const onWon: WorkflowGraph = {
+    nodes: [
+      node("trigger", "opportunity.stageChanged", "trigger", { stageName: "Won" }),
+      node("sms", "sms.send", "action", { body: "Welcome aboard" })
+    ],
+    edges: [line("trigger", "sms")]
+  };
+
+  it("moves or creates the deal and starts stage-change workflows", () => {
+    const sales: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("move", "opportunity.update", "action", {
+          pipelineName: "Sales",
+          stageName: "Won",
+          status: "won",
+          value: 500
+        })
+      ],
+      edges: [line("trigger", "move")]
+    };
+    const run = (initialState: ScenarioInitialState) =>
+      simulateWorkflows(
+        [
+          { workflowId: "sales", graph: sales },
+          { workflowId: "won", graph: onWon }
+        ],
+        created,
+        initialState
+      ).finalState;
+    expect(run({})).toMatchObject({
+      opportunities: [{ pipelineName: "Sales", stageName: "Won", status: "won", value: 500 }],
+      messages: [{ body: "Welcome aboard" }]
+    });
+    // No stage change, so no Opportunity Status Changed.
+    const alreadyWon = run({ opportunities: [{ pipelineName: "Sales", stageName: "Won" }] });
+    expect(alreadyWon.messages).toEqual([]);
+  });
+
+  it("moves the contact's first deal when the event names no pipeline", () => {
+    const event = { type: "opportunity.stageChanged" as const, stageName: "Won" };
+    const result = simulateWorkflows(only(onWon), event, {
+      opportunities: [{ pipelineName: "Sales", stageName: "New" }]
+    });
+    expect(result.finalState.opportunities).toMatchObject([
+      { pipelineName: "Sales", stageName: "Won" }
+    ]);
+  });
+
+  it("creates a deal only when the event names a pipeline", () => {
+    const event = { type: "opportunity.stageChanged" as const, stageName: "Won" };
+    const named = simulateWorkflows(only(onWon), { ...event, pipelineName: "Sales" }, {});
+    expect(named.finalState.opportunities).toMatchObject([
+      { pipelineName: "Sales", stageName: "Won" }
+    ]);
+    const unnamed = simulateWorkflows(only(onWon), event, {});
+    expect(unnamed.finalState.opportunities).toEqual([]);
+    expect(unnamed.timeline).toContainEqual(
+      expect.objectContaining({
+        nodeId: "trigger",
+        level: "warning",
+        summary: "Opportunity not moved: no pipeline"
+      })
+    );
+  });
+});
+
+describe("team assignment", () => {
+  const team = [
+    { id: "u1", name: "Ann" },
+    { id: "u2", name: "Bob", available: false },
+    { id: "u3", name: "Cy" }
+  ];
+  const tasks = (config: Record<string, unknown>, initialState: ScenarioInitialState = {}) => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("first", "task.create", "action", { title: "Call", ...config }),
+        node("second", "task.create", "action", { title: "Follow up", ...config })
+      ],
+      edges: [line("trigger", "first"), line("first", "second")]
+    };
+    return simulateWorkflows(only(graph), created, initialState, { team });
+  };
+  const assignees = (result: ReturnType<typeof tasks>) =>
+    result.finalState.tasks.map((task) => task.assignedTo);
+
+  it("rotates round robin through available members only", () => {
+    expect(assignees(tasks({ assignMode: "roundRobin" }))).toEqual(["Ann", "Cy"]);
+  });
+
+  it("assigns the contact owner and warns when the contact has none", () => {
+    expect(assignees(tasks({ assignMode: "owner" }, { ownerId: "u3" }))).toEqual(["Cy", "Cy"]);
+    const noOwner = tasks({ assignMode: "owner" });
+    expect(assignees(noOwner)).toEqual([undefined, undefined]);
+    expect(noOwner.timeline).toContainEqual(
+      expect.objectContaining({ level: "warning", summary: "Contact has no owner" })
+    );
+  });
+
+  it("assigns a named user even when away, with a warning", () => {
+    const result = tasks({ assignMode: "user", assignedTo: "bob" });
+    expect(result.finalState.tasks[0]).toMatchObject({ assignedTo: "Bob", assigneeId: "u2" });
+    expect(result.timeline).toContainEqual(
+      expect.objectContaining({ level: "warning", summary: "Bob is unavailable" })
+    );
+  });
+
+  it("carries the round-robin rotation across contacts in a batch", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("task", "task.create", "action", { title: "Call", assignMode: "roundRobin" })
+      ],
+      edges: [line("trigger", "task")]
+    };
+    const contacts = ["A", "B", "C"].map((name) => ({ name, event: created, initialState: {} }));
+    const batch = simulateBatch(only(graph), contacts, { team });
+    expect(batch.contacts.map((contact) => contact.result.finalState.tasks[0].assignedTo)).toEqual([
+      "Ann",
+      "Cy",
+      "Ann"
+    ]);
+  });
+
+  it("matches tasksCreated by member id or name", () => {
+    const testCase = (assignedTo: string): ScenarioTestCase => ({
+      name: "Owner",
+      event: created,
+      initialState: { ownerId: "u1" },
+      expect: { tasksCreated: [{ contains: ["Call"], assignedTo }] }
+    });
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("task", "task.create", "action", { title: "Call", assignMode: "owner" })
+      ],
+      edges: [line("trigger", "task")]
+    };
+    const passes = (assignedTo: string) =>
+      runSimulationTestCase(only(graph), testCase(assignedTo), team).comparison.passed;
+    expect([passes("u1"), passes("ann"), passes("Bob")]).toEqual([true, true, false]);
+  });
+});
+
+describe("Drip", () => {
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("drip", "drip", "logic", { batchSize: 2, intervalMinutes: 10 }),
+      node("sms", "sms.send", "action", { body: "Hi" })
+    ],
+    edges: [line("trigger", "drip"), line("drip", "sms")]
+  };
+  const workflows = [{ workflowId: "main", graph }];
+  const contacts = ["A", "B", "C", "D"].map((name) => ({ name, event: created, initialState: {} }));
+
+  it("hands out batches in arrival order", () => {
+    const batch = simulateBatch(workflows, [
+      ...contacts,
+      { name: "Late", event: created, initialState: {}, atSeconds: 1500 }
+    ]);
+    const sentAt = batch.contacts.map((item) => item.result.finalState.messages[0]?.timestamp);
+    // Batches go out every 600s from the first arrival; the late contact takes the
+    // first batch at or after it arrives.
+    expect(sentAt).toEqual([0, 0, 600, 600, 1800]);
+    const held = batch.contacts[2].result.timeline.find((entry) => entry.nodeId === "drip");
+    expect(held?.summary).toBe("Drip: held for batch 2");
+  });
+
+  it("checks contactsReleased against the shared clock", () => {
+    const testCase: ScenarioTestCase = {
+      name: "Batch",
+      event: created,
+      initialState: {},
+      contacts: contacts.map(({ name }) => ({ name })),
+      expect: {
+        contactsReleased: [
+          { bySeconds: 0, count: 2 },
+          { bySeconds: 600, count: 4 }
+        ]
+      }
+    };
+    expect(runSimulationTestCase(workflows, testCase).comparison.passed).toBe(true);
+
+    const tooMany = { ...testCase, expect: { contactsReleased: [{ bySeconds: 0, count: 3 }] } };
+    expect(runSimulationTestCase(workflows, tooMany).comparison.passed).toBe(false);
+  });
+});
+
+describe("batch totals", () => {
+  const booked = { anyAll: "all", rules: [{ type: "tagExists", tag: "booked" }] };
+  const main: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("wait", "wait.duration", "logic", { durationSeconds: 86400 }),
+      node("sms", "sms.send", "action", { body: "Still there?" }),
+      node("stop", "stop", "logic"),
+      node("goal", "goal", "logic", { condition: booked }),
+      node("email", "email.send", "action", { subject: "Booked", body: "See you soon" })
+    ],
+    edges: [
+      line("trigger", "wait"),
+      line("wait", "sms"),
+      line("sms", "stop"),
+      line("goal", "email")
+    ],
+    settings: { stopOnResponse: true }
+  };
+  const booking: WorkflowGraph = {
+    nodes: [
+      node("trigger", "form.submitted", "trigger"),
+      node("tag", "tag.add", "action", { tag: "booked" })
+    ],
+    edges: [line("trigger", "tag")]
+  };
+  const workflows = [
+    { workflowId: "main", graph: main },
+    { workflowId: "booking", graph: booking }
+  ];
+  const contacts = ["A", "B"].map((name) => ({ name, event: created, initialState: {} }));
+  const injectAt = (type: "conversation.reply" | "form.submitted") => ({
+    injectedEvents: [{ atSeconds: 60, event: { type } }]
+  });
+
+  it("does not count contacts that end at a Stop step", () => {
+    const { totals } = simulateBatch(workflows, contacts);
+    expect(totals.contacts).toBe(2);
+    expect(totals.messagesSent).toEqual({ sms: 2, email: 0 });
+    expect(totals.contactsStopped).toBe(0);
+  });
+
+  it("counts contacts stopped on response", () => {
+    const { totals } = simulateBatch(workflows, contacts, injectAt("conversation.reply"));
+    expect(totals.messagesSent.sms).toBe(0);
+    expect(totals.contactsStopped).toBe(2);
+  });
+
+  it("counts contacts a goal jumped past pending steps", () => {
+    const { totals } = simulateBatch(workflows, contacts, injectAt("form.submitted"));
+    expect(totals.messagesSent).toEqual({ sms: 0, email: 2 });
+    expect(totals.contactsStopped).toBe(2);
+  });
+
+  it("counts contacts and later messages per If/Else path", () => {
+    const facebook = {
+      anyAll: "all",
+      rules: [{ type: "fieldEquals", fieldKey: "source", value: "fb" }]
+    };
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("check", "ifElse", "logic", {
+          elseEnabled: true,
+          branches: [{ id: "fb", label: "Facebook", condition: facebook }]
+        }),
+        node("sms", "sms.send", "action", { body: "Hi" }),
+        node("sms2", "sms.send", "action", { body: "Again" }),
+        node("email", "email.send", "action", { subject: "Hello", body: "Hi" })
+      ],
+      edges: [
+        line("trigger", "check"),
+        line("check", "sms", "branch-fb"),
+        line("sms", "sms2"),
+        line("check", "email", "else")
+      ]
+    };
+    const withSource = (name: string, source: string) => ({
+      name,
+      event: created,
+      initialState: { fields: { source } }
+    });
+    const { totals } = simulateBatch(
+      [{ workflowId: "main", graph }],
+      [withSource("A", "fb"), withSource("B", "google"), withSource("C", "fb")]
+    );
+    expect(
+      totals.branches.map(({ label, contacts, messages }) => ({ label, contacts, messages }))
+    ).toEqual([
+      { label: "Facebook", contacts: 2, messages: 4 },
+      { label: "Else", contacts: 1, messages: 1 }
+    ]);
+  });
+});
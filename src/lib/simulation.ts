@@ -2,28 +2,57 @@ import type {
   WorkflowGraph,
   WorkflowNode,
   IfElseConfig,
+  GoalConfig,
+  SplitConfig,
+  AppointmentStatus,
+  AssignMode,
+  OpportunityStatus,
+  ConditionGroup,
   ConditionRule,
   NodeType
 } from "@/lib/workflowTypes";
 import type {
   ScenarioExpected,
   ScenarioInitialState,
+  ScenarioTeamMember,
   ScenarioTestCase,
   ScenarioTestCaseEvent
 } from "@/lib/scenarioTypes";
 import { getNodeDisplayName } from "@/lib/ghlTerms";
+import { renderMergeFields } from "@/lib/mergeFields";
+import {
+  describeConditionGroup,
+  describeRule,
+  getAppointmentStatusLabel,
+  isConditionGroupEmpty
+} from "@/lib/conditions";
+import { DEFAULT_SEED, createSeededRandom, pickWeighted } from "@/lib/seededRandom";
+import {
+  SECONDS_PER_DAY,
+  formatClock,
+  getQuietHoursDelay,
+  getWaitUntilDelay,
+  parseDateValue,
+  parseStartAt,
+  toClockIso,
+  toClockTime,
+  type WaitDays
+} from "@/lib/simulationClock";
 
 export type SimulationMessage = {
   channel: "sms" | "email";
   subject?: string;
   body: string;
+  workflowId: string;
   nodeId: string;
   timestamp: number;
+  sentAt: string;
 };
 
 export type SimulationTask = {
   title: string;
   assignedTo?: string;
+  assigneeId?: string;
   dueInMinutes?: number | null;
   nodeId: string;
   timestamp: number;
@@ -32,6 +61,7 @@ export type SimulationTask = {
 export type SimulationNotification = {
   channel: "inApp" | "email" | "sms";
   recipient: string;
+  recipientId?: string;
   message: string;
   nodeId: string;
   timestamp: number;
@@ -45,17 +75,102 @@ export type SimulationWebhook = {
   timestamp: number;
 };
 
+export type RuleTrace = {
+  rule: ConditionRule;
+  description: string;
+  actual: string;
+  passed: boolean;
+};
+
+export type ConditionGroupTrace = {
+  anyAll: ConditionGroup["anyAll"];
+  passed: boolean;
+  rules: RuleTrace[];
+  groups: ConditionGroupTrace[];
+};
+
+export type BranchTrace = {
+  branchId: string;
+  label: string;
+  passed: boolean;
+  condition: ConditionGroupTrace;
+};
+
+export type IfElseTrace = {
+  branches: BranchTrace[];
+  outcome: "branch" | "else" | "none";
+  branchId?: string;
+};
+
+export type SimulationAppointment = {
+  status: AppointmentStatus;
+  startTime?: string;
+  calendarName?: string;
+  calendarId?: string;
+};
+
+export type SimulationOpportunity = {
+  id: string;
+  pipelineName: string;
+  stageName: string;
+  value: number | null;
+  status: OpportunityStatus;
+};
+
+export type ContactSnapshot = {
+  tags: string[];
+  fields: Record<string, string | number | boolean | null>;
+  appointment: SimulationAppointment | null;
+  opportunities: SimulationOpportunity[];
+};
+
+export type StateChange =
+  | { kind: "tagAdded"; tag: string }
+  | { kind: "tagRemoved"; tag: string }
+  | {
+      kind: "fieldChanged";
+      fieldKey: string;
+      from: string | number | boolean | null;
+      to: string | number | boolean | null;
+    }
+  | {
+      kind: "opportunityChanged";
+      pipelineName: string;
+      from: string | null;
+      to: string;
+      status: OpportunityStatus;
+    }
+  | {
+      kind: "appointmentChanged";
+      from: AppointmentStatus | null;
+      to: AppointmentStatus | null;
+      startTime?: string;
+    };
+
 export type SimulationLogEntry = {
   timestamp: number;
+  // The workflow the step belongs to; node ids can repeat across workflows.
+  workflowId: string;
   nodeId: string;
   nodeType: NodeType;
   summary: string;
   details?: string;
+  level?: "info" | "warning";
+  ifElseTrace?: IfElseTrace;
+  splitPath?: { pathId: string; label: string };
+  dripBatch?: number;
+  changes?: StateChange[];
+  snapshot?: ContactSnapshot;
 };
 
+export type EnrollmentStatus = "active" | "completed";
+
 export type SimulationState = {
+  ownerId: string | null;
   tags: string[];
   fields: Record<string, string | number | boolean | null>;
+  appointment: SimulationAppointment | null;
+  opportunities: SimulationOpportunity[];
   messages: SimulationMessage[];
   tasks: SimulationTask[];
   notifications: SimulationNotification[];
@@ -64,12 +179,19 @@ export type SimulationState = {
   systemNotifications: SimulationNotification[];
   tagsAdded: string[];
   tagsRemoved: string[];
+  enrollments: Record<string, EnrollmentStatus>;
+  workflowsSkipped: string[];
+  workflowsStopped: string[];
 };
 
 export type SimulationResult = {
   timeline: SimulationLogEntry[];
   executedNodeIds: string[];
+  // The same steps grouped by workflow, for bundles that reuse node ids.
+  executedByWorkflow: Record<string, string[]>;
   finalState: SimulationState;
+  startSnapshot: ContactSnapshot;
+  startAt: string;
 };
 
 export type SimulationWorkflow = {
@@ -77,9 +199,40 @@ export type SimulationWorkflow = {
   graph: WorkflowGraph;
 };
 
+/**
+ * Batches handed out by each Drip step, keyed by workflow and node. Contacts in
+ * one batch run share a ledger so a later contact lands in a later batch.
+ */
+export type DripLedger = Map<string, { startTime: number; batches: number[] }>;
+
+/**
+ * How many round-robin assignments have been made. Contacts in one batch run
+ * share it so the rotation carries on from one contact to the next.
+ */
+export type RoundRobinCounter = { index: number };
+
 export type SimulationOptions = {
   maxSteps?: number;
+  eventAtSeconds?: number;
   injectedEvents?: { atSeconds: number; event: ScenarioTestCaseEvent }[];
+  startAt?: string;
+  timezone?: string;
+  enrollmentHistory?: { workflowId: string; status: EnrollmentStatus }[];
+  seed?: number;
+  splitPath?: string;
+  team?: ScenarioTeamMember[];
+  dripLedger?: DripLedger;
+  roundRobin?: RoundRobinCounter;
+};
+
+export type SimulationPause = {
+  time: number;
+  workflowId: string;
+  node: WorkflowNode;
+  state: SimulationState;
+  timeline: SimulationLogEntry[];
+  queuedNodes: { time: number; workflowId: string; nodeId: string }[];
+  pendingEvents: { time: number; event: ScenarioTestCaseEvent }[];
 };
 
 type ScheduledEvent = {
@@ -96,8 +249,19 @@ type ScheduledNode = {
 };
 
 const createInitialState = (initialState: ScenarioInitialState): SimulationState => ({
+  ownerId: initialState.ownerId ?? null,
   tags: initialState.tags ? [...initialState.tags] : [],
   fields: initialState.fields ? { ...initialState.fields } : {},
+  appointment: initialState.appointment
+    ? { status: "scheduled", ...initialState.appointment }
+    : null,
+  opportunities: (initialState.opportunities ?? []).map((opportunity, index) => ({
+    id: `opp-${index + 1}`,
+    pipelineName: opportunity.pipelineName,
+    stageName: opportunity.stageName,
+    value: opportunity.value ?? null,
+    status: opportunity.status ?? "open"
+  })),
   messages: [],
   tasks: [],
   notifications: [],
@@ -105,7 +269,10 @@ const createInitialState = (initialState: ScenarioInitialState): SimulationState
   systemTasks: [],
   systemNotifications: [],
   tagsAdded: [],
-  tagsRemoved: []
+  tagsRemoved: [],
+  enrollments: {},
+  workflowsSkipped: [],
+  workflowsStopped: []
 });
 
 const isSystemTrigger = (nodeType: NodeType) => nodeType === "scheduler.daily";
@@ -116,19 +283,121 @@ const normalizeRuleValue = (value: any) => {
   return value;
 };
 
-const evaluateRule = (rule: ConditionRule, state: SimulationState) => {
+// Field values come from text inputs, so "true", "false" and numbers are read as such.
+const coerceFieldValue = (rawValue: unknown): string | number | boolean | null => {
+  if (typeof rawValue !== "string") {
+    return (rawValue as string | number | boolean | null | undefined) ?? null;
+  }
+  if (rawValue.toLowerCase() === "true") {
+    return true;
+  }
+  if (rawValue.toLowerCase() === "false") {
+    return false;
+  }
+  if (rawValue !== "" && !Number.isNaN(Number(rawValue))) {
+    return Number(rawValue);
+  }
+  return rawValue;
+};
+
+const evaluateRule = (rule: ConditionRule, state: SimulationState, clockMs: number) => {
   switch (rule.type) {
     case "tagExists":
       return state.tags.includes(rule.tag);
+    case "tagNotExists":
+      return !state.tags.includes(rule.tag);
     case "fieldExists": {
       const value = state.fields[rule.fieldKey];
       return value !== undefined && value !== null && String(value).length > 0;
     }
+    case "isEmpty": {
+      const value = state.fields[rule.fieldKey];
+      return value === undefined || value === null || String(value).length === 0;
+    }
     case "fieldEquals": {
       const current = state.fields[rule.fieldKey];
       return current === normalizeRuleValue(rule.value);
     }
+    case "fieldNotEquals": {
+      const current = state.fields[rule.fieldKey];
+      return current !== normalizeRuleValue(rule.value);
+    }
+    case "fieldContains":
+    case "fieldStartsWith": {
+      const current = state.fields[rule.fieldKey];
+      if (current === undefined || current === null) {
+        return false;
+      }
+      const haystack = String(current).toLowerCase();
+      const needle = String(rule.value ?? "").toLowerCase();
+      return rule.type === "fieldContains"
+        ? haystack.includes(needle)
+        : haystack.startsWith(needle);
+    }
+    case "greaterThan":
+    case "lessThan": {
+      const current = state.fields[rule.fieldKey];
+      if (current === undefined || current === null || current === "") {
+        return false;
+      }
+      const actual = Number(current);
+      const target = Number(rule.value);
+      if (Number.isNaN(actual) || Number.isNaN(target)) {
+        return false;
+      }
+      return rule.type === "greaterThan" ? actual > target : actual < target;
+    }
+    case "appointmentStatusIs":
+      return state.appointment?.status === rule.status;
+    case "dateBefore":
+    case "dateAfter": {
+      const actual = parseDateValue(state.fields[rule.fieldKey]);
+      if (actual === null) {
+        return false;
+      }
+      const cutoff = clockMs - Number(rule.daysAgo ?? 0) * SECONDS_PER_DAY * 1000;
+      return rule.type === "dateBefore" ? actual < cutoff : actual > cutoff;
+    }
+  }
+};
+
+const describeActualValue = (rule: ConditionRule, state: SimulationState) => {
+  if ("tag" in rule) {
+    return state.tags.includes(rule.tag) ? "tag present" : "tag missing";
   }
+  if (rule.type === "appointmentStatusIs") {
+    return state.appointment
+      ? getAppointmentStatusLabel(state.appointment.status).toLowerCase()
+      : "no appointment";
+  }
+  const value = state.fields[rule.fieldKey];
+  if (value === undefined || value === null || value === "") {
+    return "(empty)";
+  }
+  return JSON.stringify(value);
+};
+
+const traceGroup = (
+  group: ConditionGroup,
+  state: SimulationState,
+  clockMs: number
+): ConditionGroupTrace => {
+  const rules = group.rules.map((rule) => ({
+    rule,
+    description: describeRule(rule),
+    actual: describeActualValue(rule, state),
+    passed: evaluateRule(rule, state, clockMs)
+  }));
+  const groups = (group.groups ?? [])
+    .filter((child) => !isConditionGroupEmpty(child))
+    .map((child) => traceGroup(child, state, clockMs));
+  const checks = [...rules, ...groups].map((check) => check.passed);
+  const passed = checks.length
+    ? group.anyAll === "all"
+      ? checks.every(Boolean)
+      : checks.some(Boolean)
+    : false;
+  return { anyAll: group.anyAll, passed, rules, groups };
 };
 
 const matchesTrigger = (node: WorkflowNode, event: ScenarioTestCaseEvent) => {
@@ -149,7 +418,7 @@ const matchesTrigger = (node: WorkflowNode, event: ScenarioTestCaseEvent) => {
       return node.config.formId === event.formId;
     }
   }
-  if (node.type === "appointment.scheduled") {
+  if (node.type.startsWith("appointment.")) {
     if (node.config?.calendarName) {
       return node.config.calendarName === event.calendarName;
     }
@@ -157,6 +426,14 @@ const matchesTrigger = (node: WorkflowNode, event: ScenarioTestCaseEvent) => {
       return node.config.calendarId === event.calendarId;
     }
   }
+  if (node.type === "email.opened" || node.type === "email.clicked") {
+    if (node.config?.emailNodeId && node.config.emailNodeId !== event.emailNodeId) {
+      return false;
+    }
+    if (node.type === "email.clicked" && node.config?.linkContains) {
+      return String(event.url ?? "").includes(String(node.config.linkContains));
+    }
+  }
   if (node.type === "opportunity.stageChanged") {
     if (node.config?.stageName) {
       return node.config.stageName === event.stageName;
@@ -168,6 +445,18 @@ const matchesTrigger = (node: WorkflowNode, event: ScenarioTestCaseEvent) => {
   return true;
 };
 
+const APPOINTMENT_EVENT_STATUS: Partial<Record<NodeType, AppointmentStatus>> = {
+  "appointment.scheduled": "scheduled",
+  "appointment.rescheduled": "rescheduled",
+  "appointment.cancelled": "cancelled",
+  "appointment.noShow": "noShow"
+};
+
+const isEngagementEvent = (type: NodeType) =>
+  type === "email.opened" || type === "email.clicked";
+
+const LINK_PATTERN = /https?:\/\/[^\s"'<>)]+/;
+
 const getOutgoingTargets = (
   graph: WorkflowGraph,
   nodeId: string,
@@ -180,19 +469,122 @@ const getOutgoingTargets = (
   return filtered.map((edge) => edge.target).sort();
 };
 
+const snapshotContact = (state: SimulationState): ContactSnapshot => ({
+  tags: [...state.tags],
+  fields: { ...state.fields },
+  appointment: state.appointment ? { ...state.appointment } : null,
+  opportunities: state.opportunities.map((opportunity) => ({ ...opportunity }))
+});
+
+const diffContact = (before: ContactSnapshot, after: ContactSnapshot): StateChange[] => {
+  const changes: StateChange[] = [
+    ...after.tags
+      .filter((tag) => !before.tags.includes(tag))
+      .map((tag): StateChange => ({ kind: "tagAdded", tag })),
+    ...before.tags
+      .filter((tag) => !after.tags.includes(tag))
+      .map((tag): StateChange => ({ kind: "tagRemoved", tag }))
+  ];
+  const fieldKeys = new Set([...Object.keys(before.fields), ...Object.keys(after.fields)]);
+  fieldKeys.forEach((fieldKey) => {
+    const from = before.fields[fieldKey] ?? null;
+    const to = after.fields[fieldKey] ?? null;
+    if (from !== to) {
+      changes.push({ kind: "fieldChanged", fieldKey, from, to });
+    }
+  });
+  after.opportunities.forEach((opportunity) => {
+    const previous = before.opportunities.find((item) => item.id === opportunity.id);
+    if (JSON.stringify(previous) !== JSON.stringify(opportunity)) {
+      changes.push({
+        kind: "opportunityChanged",
+        pipelineName: opportunity.pipelineName,
+        from: previous?.stageName ?? null,
+        to: opportunity.stageName,
+        status: opportunity.status
+      });
+    }
+  });
+  if (JSON.stringify(before.appointment) !== JSON.stringify(after.appointment)) {
+    changes.push({
+      kind: "appointmentChanged",
+      from: before.appointment?.status ?? null,
+      to: after.appointment?.status ?? null,
+      startTime:
+        after.appointment?.startTime !== before.appointment?.startTime
+          ? after.appointment?.startTime
+          : undefined
+    });
+  }
+  return changes;
+};
+
+const formatFieldValue = (value: string | number | boolean | null) =>
+  value === null ? "null" : value === "" ? '""' : String(value);
+
+const describeAppointmentStatus = (status: AppointmentStatus | null) =>
+  status ? getAppointmentStatusLabel(status).toLowerCase() : "none";
+
+export const describeStateChange = (change: StateChange) => {
+  switch (change.kind) {
+    case "tagAdded":
+      return `+tag ${change.tag}`;
+    case "tagRemoved":
+      return `-tag ${change.tag}`;
+    case "fieldChanged":
+      return `field ${change.fieldKey}: ${formatFieldValue(change.from)} → ${formatFieldValue(
+        change.to
+      )}`;
+    case "opportunityChanged":
+      return `opportunity ${change.pipelineName}: ${
+        change.from === change.to ? "" : `${change.from ?? "none"} → `
+      }${change.to}${
+        change.status === "open" ? "" : ` (${change.status})`
+      }`;
+    case "appointmentChanged":
+      return `appointment: ${describeAppointmentStatus(change.from)} → ${describeAppointmentStatus(
+        change.to
+      )}${change.startTime ? ` (${change.startTime})` : ""}`;
+  }
+};
+
+export const describeOpportunity = (opportunity: SimulationOpportunity) =>
+  [
+    `${opportunity.pipelineName}: ${opportunity.stageName}`,
+    opportunity.status,
+    opportunity.value === null ? null : `$${opportunity.value}`
+  ]
+    .filter(Boolean)
+    .join(", ");
+
+export const describeAppointment = (appointment: SimulationAppointment | null) =>
+  appointment
+    ? [
+        getAppointmentStatusLabel(appointment.status),
+        appointment.startTime,
+        appointment.calendarName ?? appointment.calendarId
+      ]
+        .filter(Boolean)
+        .join(", ")
+    : "None";
+
 const logEntry = (
   timeline: SimulationLogEntry[],
   timestamp: number,
+  workflowId: string,
   node: WorkflowNode,
   summary: string,
-  details?: string
+  details?: string,
+  extra?: Pick<SimulationLogEntry, "level" | "ifElseTrace" | "splitPath" | "dripBatch">
 ) => {
   timeline.push({
     timestamp,
+    workflowId,
     nodeId: node.id,
     nodeType: node.type,
     summary,
-    details
+    details,
+    ...extra
   });
 };
 
@@ -208,7 +600,7 @@ const pushNextSteps = (
 ) => {
   const targets = getOutgoingTargets(graph, node.id, sourceHandle);
   if (targets.length === 0) {
-    logEntry(timeline, time, node, "Workflow ended (no more steps).");
+    logEntry(timeline, time, workflowId, node, "Workflow ended (no more steps).");
     return;
   }
   targets.forEach((target) =>
@@ -221,21 +613,35 @@ const pushNextSteps = (
   );
 };
 
-export const simulateWorkflows = (
+/**
+ * Resumable form of the simulator. Yields a pause just before each step runs
+ * and returns the full result once both queues drain. The pause exposes the
+ * live state, so copy it before keeping it around.
+ */
+export function* simulateWorkflowSteps(
   workflows: SimulationWorkflow[],
   event: ScenarioTestCaseEvent,
   initialState: ScenarioInitialState,
   options: SimulationOptions = {}
-): SimulationResult => {
+): Generator<SimulationPause, SimulationResult, void> {
   const state = createInitialState(initialState);
   const timeline: SimulationLogEntry[] = [];
   const executedNodeIds: string[] = [];
+  const executedByWorkflow: Record<string, string[]> = {};
+  const markExecuted = (workflowId: string, nodeId: string) => {
+    executedNodeIds.push(nodeId);
+    executedByWorkflow[workflowId] = [...(executedByWorkflow[workflowId] ?? []), nodeId];
+  };
   const maxSteps = options.maxSteps ?? 500;
+  const startMs = parseStartAt(options.startAt, options.timezone);
+  const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
 
   const workflowMap = new Map(workflows.map((workflow) => [workflow.workflowId, workflow.graph]));
   let eventSeq = 0;
   const nodeSeqRef = { value: 0 };
-  const eventQueue: ScheduledEvent[] = [{ time: 0, event, seq: eventSeq++ }];
+  const eventQueue: ScheduledEvent[] = [
+    { time: options.eventAtSeconds ?? 0, event, seq: eventSeq++ }
+  ];
   if (options.injectedEvents?.length) {
     options.injectedEvents.forEach((injected) =>
       eventQueue.push({ time: injected.atSeconds, event: injected.event, seq: eventSeq++ })
@@ -243,43 +649,411 @@ export const simulateWorkflows = (
   }
 
   const nodeQueue: ScheduledNode[] = [];
+  const dripLedger: DripLedger = options.dripLedger ?? new Map();
+  const dripBatches = new Map<string, number>();
   const triggerHistory = new Map<string, number>();
+  const enrolledThisRun = new Set<string>();
+  options.enrollmentHistory?.forEach((entry) => {
+    state.enrollments[entry.workflowId] = entry.status;
+  });
 
-  const scheduleWorkflowTriggers = (time: number, eventToProcess: ScenarioTestCaseEvent) => {
-    workflows.forEach((workflow) => {
-      workflow.graph.nodes
-        .filter((node) => node.kind === "trigger")
-        .forEach((node) => {
-          if (!matchesTrigger(node, eventToProcess)) {
-            return;
-          }
-          const key = `${workflow.workflowId}:${eventToProcess.type}:${eventToProcess.tag ?? ""}`;
-          const count = triggerHistory.get(key) ?? 0;
-          if (count >= 3) {
+  const getEnrollmentStatus = (workflowId: string): EnrollmentStatus | undefined => {
+    if (nodeQueue.some((item) => item.workflowId === workflowId)) {
+      return "active";
+    }
+    return enrolledThisRun.has(workflowId) ? "completed" : state.enrollments[workflowId];
+  };
+
+  const renderText = (value: unknown, workflowId: string, node: WorkflowNode, time: number) => {
+    const rendered = renderMergeFields(String(value ?? ""), state.fields);
+    if (rendered.unresolved.length) {
+      logEntry(
+        timeline,
+        time,
+        workflowId,
+        node,
+        "Merge field has no value (left blank)",
+        rendered.unresolved.join(", "),
+        { level: "warning" }
+      );
+    }
+    return rendered.text;
+  };
+
+  // Opens and clicks only happen to an email that was already sent. The event may
+  // name the email step (emailNodeId) or part of its subject; otherwise the latest
+  // email counts. The resolved event carries the step id and clicked link for triggers.
+  const resolveEngagementEvent = (time: number, eventToResolve: ScenarioTestCaseEvent) => {
+    const emailNodeId = eventToResolve.emailNodeId ? String(eventToResolve.emailNodeId) : "";
+    const subjectContains = eventToResolve.subjectContains
+      ? String(eventToResolve.subjectContains)
+      : "";
+    const message = state.messages
+      .filter(
+        (item) =>
+          item.channel === "email" &&
+          item.timestamp <= time &&
+          (!emailNodeId || item.nodeId === emailNodeId) &&
+          (!subjectContains || (item.subject ?? "").includes(subjectContains))
+      )
+      .pop();
+    if (!message) {
+      const wanted = emailNodeId
+        ? ` from step ${emailNodeId}`
+        : subjectContains
+          ? ` with "${subjectContains}"`
+          : "";
+      workflows.forEach((workflow) =>
+        workflow.graph.nodes
+          .filter((node) => node.type === eventToResolve.type)
+          .forEach((node) =>
+            logEntry(
+              timeline,
+              time,
+              workflow.workflowId,
+              node,
+              `${getNodeDisplayName(node.type)} ignored: no matching email was sent`,
+              `No email${wanted} was sent before +${time}s.`,
+              { level: "warning" }
+            )
+          )
+      );
+      return null;
+    }
+    const url =
+      eventToResolve.type === "email.clicked"
+        ? String(eventToResolve.url ?? LINK_PATTERN.exec(message.body)?.[0] ?? "")
+        : undefined;
+    return {
+      ...eventToResolve,
+      emailNodeId: message.nodeId,
+      subject: message.subject,
+      ...(url !== undefined ? { url } : {})
+    };
+  };
+
+  // appointment.* events move the contact's appointment to the matching status.
+  // Start time and calendar carry over unless the event gives new ones, and the
+  // returned event carries the calendar so trigger filters still match.
+  const applyAppointmentEvent = (eventToApply: ScenarioTestCaseEvent) => {
+    const status = APPOINTMENT_EVENT_STATUS[eventToApply.type];
+    if (!status) {
+      return eventToApply;
+    }
+    const updates = Object.fromEntries(
+      (["startTime", "calendarName", "calendarId"] as const)
+        .filter((key) => eventToApply[key] !== undefined)
+        .map((key) => [key, String(eventToApply[key])])
+    );
+    state.appointment = { ...state.appointment, ...updates, status };
+    return { ...state.appointment, ...eventToApply };
+  };
+
+  // Round robin walks the available members in roster order, one per assignment.
+  const roundRobin: RoundRobinCounter = options.roundRobin ?? { index: 0 };
+  const team = options.team ?? [];
+
+  const resolveAssignee = (
+    mode: AssignMode,
+    named: string,
+    workflowId: string,
+    node: WorkflowNode,
+    time: number
+  ): { id?: string; name: string; how: string } | null => {
+    const warn = (summary: string, details?: string) =>
+      logEntry(timeline, time, workflowId, node, summary, details, { level: "warning" });
+    if (mode === "roundRobin") {
+      const available = team.filter((member) => member.available !== false);
+      if (!available.length) {
+        warn("Round robin: no available team member", "Nobody was assigned.");
+        return null;
+      }
+      const member = available[roundRobin.index % available.length];
+      roundRobin.index += 1;
+      return { id: member.id, name: member.name, how: "round robin" };
+    }
+    if (mode === "owner") {
+      if (!state.ownerId) {
+        warn("Contact has no owner", "Nobody was assigned.");
+        return null;
+      }
+      const owner = team.find((member) => member.id === state.ownerId);
+      if (owner?.available === false) {
+        warn(`Owner ${owner.name} is unavailable`, "Assigned anyway, like HighLevel does.");
+      }
+      return { id: state.ownerId, name: owner?.name ?? state.ownerId, how: "contact owner" };
+    }
+    if (!named) {
+      return null;
+    }
+    const member = team.find(
+      (item) => item.id === named || item.name.toLowerCase() === named.toLowerCase()
+    );
+    if (member?.available === false) {
+      warn(
+        `${member.name} is unavailable`,
+        "Assigned anyway. Round robin skips people who are away."
+      );
+    }
+    return { id: member?.id, name: member?.name ?? named, how: "specific user" };
+  };
+
+  const findOpportunity = (pipelineName?: string) =>
+    pipelineName
+      ? state.opportunities.find((opportunity) => opportunity.pipelineName === pipelineName)
+      : state.opportunities[0];
+
+  // Moves (or creates) the deal in a pipeline. Returns true when the stage changed,
+  // which is when HighLevel fires Opportunity Status Changed.
+  const moveOpportunity = (pipelineName: string, stageName: string) => {
+    const existing = findOpportunity(pipelineName);
+    if (!existing) {
+      state.opportunities.push({
+        id: `opp-${state.opportunities.length + 1}`,
+        pipelineName,
+        stageName,
+        value: null,
+        status: "open"
+      });
+      return true;
+    }
+    if (existing.stageName === stageName) {
+      return false;
+    }
+    existing.stageName = stageName;
+    return true;
+  };
+
+  // opportunity.stageChanged events move the named deal so later steps see the new
+  // stage. Events the simulator fired itself already match the state. An event
+  // with no pipeline moves the contact's first deal, and creates none.
+  const applyOpportunityEvent = (time: number, eventToApply: ScenarioTestCaseEvent) => {
+    if (eventToApply.type !== "opportunity.stageChanged" || !eventToApply.stageName) {
+      return;
+    }
+    const pipelineName = eventToApply.pipelineName
+      ? String(eventToApply.pipelineName)
+      : findOpportunity()?.pipelineName;
+    if (!pipelineName) {
+      workflows.forEach((workflow) =>
+        workflow.graph.nodes
+          .filter((node) => node.type === eventToApply.type)
+          .forEach((node) =>
+            logEntry(
+              timeline,
+              time,
+              workflow.workflowId,
+              node,
+              "Opportunity not moved: no pipeline",
+              `The event names no pipeline and the contact has no opportunity to move to ${String(
+                eventToApply.stageName
+              )}.`,
+              { level: "warning" }
+            )
+          )
+      );
+      return;
+    }
+    moveOpportunity(pipelineName, String(eventToApply.stageName));
+  };
+
+  const stopWorkflowsOnResponse = (time: number) => {
+    workflows
+      .filter((workflow) => workflow.graph.settings?.stopOnResponse)
+      .forEach((workflow) => {
+        const cancelled = nodeQueue.filter((item) => item.workflowId === workflow.workflowId);
+        if (!cancelled.length) {
+          return;
+        }
+        cancelled.forEach((item) => {
+          nodeQueue.splice(nodeQueue.indexOf(item), 1);
+          const node = workflow.graph.nodes.find((n) => n.id === item.nodeId);
+          if (!node) {
             return;
           }
-          triggerHistory.set(key, count + 1);
-          nodeQueue.push({
+          const waiting = item.time > time;
+          logEntry(
+            timeline,
             time,
-            workflowId: workflow.workflowId,
-            nodeId: node.id,
-            seq: nodeSeqRef.value++
-          });
+            workflow.workflowId,
+            node,
+            waiting
+              ? "Stopped on response: cancelled wait"
+              : `Stopped on response: cancelled ${getNodeDisplayName(node.type)}`,
+            waiting
+              ? `Contact replied at +${time}s. The wait before ${getNodeDisplayName(
+                  node.type
+                )} (due +${item.time}s) in workflow ${workflow.workflowId} was cancelled.`
+              : `Contact replied at +${time}s. Workflow ${workflow.workflowId} will not continue.`
+          );
         });
+        state.workflowsStopped.push(workflow.workflowId);
+      });
+  };
+
+  // Applies the re-entry rules and marks the contact as enrolled. The skip is
+  // logged on `logNode` in `logWorkflowId`: the trigger, or the step that asked
+  // to enroll.
+  const enrollContact = (
+    workflow: SimulationWorkflow,
+    logWorkflowId: string,
+    logNode: WorkflowNode,
+    time: number,
+    historyKey: string
+  ) => {
+    if (!workflow.graph.settings?.allowReentry) {
+      const status = getEnrollmentStatus(workflow.workflowId);
+      if (status) {
+        logEntry(
+          timeline,
+          time,
+          logWorkflowId,
+          logNode,
+          "Skipped: contact already enrolled",
+          `Workflow ${workflow.workflowId} is ${status}. Re-entry is off.`
+        );
+        state.workflowsSkipped.push(workflow.workflowId);
+        return false;
+      }
+    } else {
+      const count = triggerHistory.get(historyKey) ?? 0;
+      if (count >= 3) {
+        return false;
+      }
+      triggerHistory.set(historyKey, count + 1);
+    }
+    state.enrollments[workflow.workflowId] = "active";
+    enrolledThisRun.add(workflow.workflowId);
+    return true;
+  };
+
+  // One event enrolls the contact in a workflow once, from its first matching
+  // trigger, even when several of its triggers match.
+  const scheduleWorkflowTriggers = (time: number, eventToProcess: ScenarioTestCaseEvent) => {
+    workflows.forEach((workflow) => {
+      const node = workflow.graph.nodes.find(
+        (item) => item.kind === "trigger" && matchesTrigger(item, eventToProcess)
+      );
+      if (!node) {
+        return;
+      }
+      const key = `${workflow.workflowId}:${eventToProcess.type}:${eventToProcess.tag ?? ""}`;
+      if (!enrollContact(workflow, workflow.workflowId, node, time, key)) {
+        return;
+      }
+      nodeQueue.push({
+        time,
+        workflowId: workflow.workflowId,
+        nodeId: node.id,
+        seq: nodeSeqRef.value++
+      });
+    });
+  };
+
+  const startSnapshot = snapshotContact(state);
+  let settledSnapshot = startSnapshot;
+  let settledCount = 0;
+
+  // Entries written since the last settle share the contact snapshot taken after
+  // them; the first non-warning entry carries the diff so it shows once.
+  const settleTimeline = () => {
+    if (settledCount === timeline.length) {
+      return;
+    }
+    const snapshot = snapshotContact(state);
+    const entries = timeline.slice(settledCount);
+    const changes = diffContact(settledSnapshot, snapshot);
+    entries.forEach((entry) => {
+      entry.snapshot = snapshot;
     });
+    if (changes.length) {
+      const primary = entries.find((entry) => entry.level !== "warning") ?? entries[0];
+      primary.changes = changes;
+    }
+    settledSnapshot = snapshot;
+    settledCount = timeline.length;
   };
 
-  scheduleWorkflowTriggers(0, event);
+  const goalsMet = new Set<string>();
+  // Null when goals must be checked even if the contact has not changed.
+  let goalContactKey: string | null = JSON.stringify(startSnapshot);
+  let clockSeconds = 0;
+
+  // Goals are checked once a workflow's trigger fires, then whenever the contact
+  // changes. A met goal cancels the workflow's pending steps and continues from
+  // the goal's outgoing path.
+  const checkGoals = (time: number) => {
+    const contactKey = JSON.stringify(snapshotContact(state));
+    if (contactKey === goalContactKey) {
+      return;
+    }
+    goalContactKey = contactKey;
+    workflows.forEach((workflow) => {
+      if (!nodeQueue.some((item) => item.workflowId === workflow.workflowId)) {
+        return;
+      }
+      const goal = workflow.graph.nodes.find((node) => {
+        const condition = (node.config as GoalConfig)?.condition;
+        return (
+          node.type === "goal" &&
+          !goalsMet.has(`${workflow.workflowId}:${node.id}`) &&
+          condition &&
+          traceGroup(condition, state, toClockTime(startMs, time)).passed
+        );
+      });
+      if (!goal) {
+        return;
+      }
+      goalsMet.add(`${workflow.workflowId}:${goal.id}`);
+      const cancelled = nodeQueue.filter((item) => item.workflowId === workflow.workflowId);
+      cancelled.forEach((item) => nodeQueue.splice(nodeQueue.indexOf(item), 1));
+      markExecuted(workflow.workflowId, goal.id);
+      logEntry(
+        timeline,
+        time,
+        workflow.workflowId,
+        goal,
+        `Goal met: jumped to ${getNodeDisplayName(goal.type)}`,
+        `Because ${describeConditionGroup(
+          (goal.config as GoalConfig).condition
+        )}. Skipped ${cancelled.length} pending step(s) in workflow ${workflow.workflowId}.`
+      );
+      pushNextSteps(
+        timeline,
+        workflow.graph,
+        goal,
+        workflow.workflowId,
+        time,
+        nodeQueue,
+        nodeSeqRef
+      );
+    });
+  };
 
   let steps = 0;
   while ((eventQueue.length || nodeQueue.length) && steps < maxSteps) {
     steps += 1;
+    settleTimeline();
+    checkGoals(clockSeconds);
     const nextEvent = eventQueue.sort((a, b) => a.time - b.time || a.seq - b.seq)[0];
     const nextNode = nodeQueue.sort((a, b) => a.time - b.time || a.seq - b.seq)[0];
 
     if (nextEvent && (!nextNode || nextEvent.time <= nextNode.time)) {
       eventQueue.shift();
-      scheduleWorkflowTriggers(nextEvent.time, nextEvent.event);
+      clockSeconds = nextEvent.time;
+      if (nextEvent.event.type === "conversation.reply") {
+        stopWorkflowsOnResponse(nextEvent.time);
+      }
+      applyOpportunityEvent(nextEvent.time, nextEvent.event);
+      const appliedEvent = applyAppointmentEvent(nextEvent.event);
+      if (isEngagementEvent(nextEvent.event.type)) {
+        const resolved = resolveEngagementEvent(nextEvent.time, nextEvent.event);
+        if (resolved) {
+          scheduleWorkflowTriggers(nextEvent.time, resolved);
+        }
+        continue;
+      }
+      scheduleWorkflowTriggers(nextEvent.time, appliedEvent);
       continue;
     }
 
@@ -288,6 +1062,7 @@ export const simulateWorkflows = (
     }
 
     nodeQueue.shift();
+    clockSeconds = nextNode.time;
     const graph = workflowMap.get(nextNode.workflowId);
     if (!graph) {
       continue;
@@ -297,15 +1072,98 @@ export const simulateWorkflows = (
       continue;
     }
 
-    executedNodeIds.push(node.id);
+    if (node.type === "sms.send" || node.type === "email.send") {
+      const quietHours = graph.settings?.quietHours;
+      const delay = getQuietHoursDelay(quietHours, toClockTime(startMs, nextNode.time));
+      if (delay) {
+        const resumeTime = nextNode.time + delay;
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `${getNodeDisplayName(node.type)} deferred (quiet hours)`,
+          `Quiet hours ${quietHours?.start}-${quietHours?.end}. Sends at ${formatClock(
+            toClockTime(startMs, resumeTime)
+          )} (+${resumeTime}s).`
+        );
+        nodeQueue.push({
+          time: resumeTime,
+          workflowId: nextNode.workflowId,
+          nodeId: node.id,
+          seq: nodeSeqRef.value++
+        });
+        continue;
+      }
+    }
+
+    // A contact reaching a Drip takes the first batch with room at or after now.
+    // Until that batch goes out the step is re-queued, like a quiet-hours send.
+    if (node.type === "drip") {
+      const dripKey = `${nextNode.workflowId}:${node.id}`;
+      const batchSize = Math.floor(Number(node.config?.batchSize ?? 0));
+      const intervalMinutes = Number(node.config?.intervalMinutes ?? 0);
+      if (batchSize >= 1 && intervalMinutes > 0 && !dripBatches.has(dripKey)) {
+        const intervalSeconds = intervalMinutes * 60;
+        const drip = dripLedger.get(dripKey) ?? { startTime: nextNode.time, batches: [] };
+        dripLedger.set(dripKey, drip);
+        let batch = Math.max(0, Math.ceil((nextNode.time - drip.startTime) / intervalSeconds));
+        while ((drip.batches[batch] ?? 0) >= batchSize) {
+          batch += 1;
+        }
+        drip.batches[batch] = (drip.batches[batch] ?? 0) + 1;
+        dripBatches.set(dripKey, batch);
+        const releaseTime = drip.startTime + batch * intervalSeconds;
+        if (releaseTime > nextNode.time) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            `Drip: held for batch ${batch + 1}`,
+            `Batches of ${batchSize} every ${intervalMinutes} min. Released at ${formatClock(
+              toClockTime(startMs, releaseTime)
+            )} (+${releaseTime}s).`
+          );
+          nodeQueue.push({
+            time: releaseTime,
+            workflowId: nextNode.workflowId,
+            nodeId: node.id,
+            seq: nodeSeqRef.value++
+          });
+          continue;
+        }
+      }
+    }
+
+    // Pause only once the step is about to run, so a step that quiet hours or a
+    // Drip puts back in the queue pauses when it runs, not each time it comes up.
+    yield {
+      time: nextNode.time,
+      workflowId: nextNode.workflowId,
+      node,
+      state,
+      timeline,
+      queuedNodes: [...nodeQueue]
+        .sort((a, b) => a.time - b.time || a.seq - b.seq)
+        .map(({ time, workflowId, nodeId }) => ({ time, workflowId, nodeId })),
+      pendingEvents: [...eventQueue]
+        .sort((a, b) => a.time - b.time || a.seq - b.seq)
+        .map(({ time, event: pending }) => ({ time, event: pending }))
+    };
+
+    markExecuted(nextNode.workflowId, node.id);
 
     if (node.kind === "trigger") {
       logEntry(
         timeline,
         nextNode.time,
+        nextNode.workflowId,
         node,
         `Trigger fired: ${getNodeDisplayName(node.type)}`
       );
+      // A contact may meet a goal before its first step.
+      goalContactKey = null;
       pushNextSteps(
         timeline,
         graph,
@@ -319,7 +1177,13 @@ export const simulateWorkflows = (
     }
 
     if (node.type === "stop") {
-      logEntry(timeline, nextNode.time, node, "Workflow ended (no more steps).");
+      logEntry(
+        timeline,
+        nextNode.time,
+        nextNode.workflowId,
+        node,
+        "Workflow ended (no more steps)."
+      );
       continue;
     }
 
@@ -329,6 +1193,7 @@ export const simulateWorkflows = (
       logEntry(
         timeline,
         nextNode.time,
+        nextNode.workflowId,
         node,
         `Wait for ${duration} seconds`,
         `Resumes at +${duration}s`
@@ -345,47 +1210,141 @@ export const simulateWorkflows = (
       continue;
     }
 
-    if (node.type === "ifElse") {
-      const config = node.config as IfElseConfig;
-      const branch = config.branches.find((branchItem) => {
-        const rules = branchItem.condition.rules;
-        if (!rules.length) return false;
-        const checks = rules.map((rule) => evaluateRule(rule, state));
-        return branchItem.condition.anyAll === "all"
-          ? checks.every(Boolean)
-          : checks.some(Boolean);
-      });
-      if (branch) {
+    if (node.type === "goal") {
+      const condition = (node.config as GoalConfig)?.condition;
+      const met = Boolean(
+        condition &&
+          traceGroup(condition, state, toClockTime(startMs, nextNode.time)).passed
+      );
+      goalsMet.add(`${nextNode.workflowId}:${node.id}`);
+      logEntry(
+        timeline,
+        nextNode.time,
+        nextNode.workflowId,
+        node,
+        met ? "Goal reached (already met)" : "Goal reached (not met yet)",
+        met
+          ? `Because ${describeConditionGroup(condition)}`
+          : "The contact continues down the path."
+      );
+      pushNextSteps(
+        timeline,
+        graph,
+        node,
+        nextNode.workflowId,
+        nextNode.time,
+        nodeQueue,
+        nodeSeqRef
+      );
+      continue;
+    }
+
+    if (node.type === "wait.untilTime") {
+      const time = String(node.config?.time ?? "");
+      const days = (node.config?.days as WaitDays | undefined) ?? "any";
+      const delay = getWaitUntilDelay(time, days, toClockTime(startMs, nextNode.time));
+      if (delay === null) {
         logEntry(
           timeline,
           nextNode.time,
+          nextNode.workflowId,
           node,
-          `If/Else matched: ${branch.label}`
+          "Wait until time skipped (no valid time)",
+          `"${time}" is not a time like 09:00, so the next step runs now.`,
+          { level: "warning" }
         );
-        pushNextSteps(
+      } else {
+        const resumeTime = nextNode.time + delay;
+        logEntry(
           timeline,
-          graph,
-          node,
-          nextNode.workflowId,
           nextNode.time,
-          nodeQueue,
-          nodeSeqRef,
-          `branch-${branch.id}`
-        );
-      } else if (config.elseEnabled) {
-        logEntry(timeline, nextNode.time, node, "If/Else took Else branch");
-        pushNextSteps(
-          timeline,
-          graph,
-          node,
           nextNode.workflowId,
-          nextNode.time,
-          nodeQueue,
-          nodeSeqRef,
-          "else"
+          node,
+          `Wait until ${time}${days === "any" ? "" : ` (${days})`}`,
+          `Resumes at ${formatClock(toClockTime(startMs, resumeTime))} (+${resumeTime}s)`
+        );
+      }
+      pushNextSteps(
+        timeline,
+        graph,
+        node,
+        nextNode.workflowId,
+        nextNode.time + (delay ?? 0),
+        nodeQueue,
+        nodeSeqRef
+      );
+      continue;
+    }
+
+    if (node.type === "ifElse") {
+      const config = node.config as IfElseConfig;
+      const clockMs = toClockTime(startMs, nextNode.time);
+      const branchTraces: BranchTrace[] = [];
+      const branch = config.branches.find((branchItem) => {
+        const condition = traceGroup(branchItem.condition, state, clockMs);
+        branchTraces.push({
+          branchId: branchItem.id,
+          label: branchItem.label,
+          passed: condition.passed,
+          condition
+        });
+        return condition.passed;
+      });
+      const ifElseTrace: IfElseTrace = {
+        branches: branchTraces,
+        outcome: branch ? "branch" : config.elseEnabled ? "else" : "none",
+        branchId: branch?.id
+      };
+      if (branch) {
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `If/Else matched: ${branch.label}`,
+          `Because ${describeConditionGroup(branch.condition)}`,
+          { ifElseTrace }
+        );
+        pushNextSteps(
+          timeline,
+          graph,
+          node,
+          nextNode.workflowId,
+          nextNode.time,
+          nodeQueue,
+          nodeSeqRef,
+          `branch-${branch.id}`
+        );
+      } else if (config.elseEnabled) {
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          "If/Else took Else branch",
+          undefined,
+          { ifElseTrace }
+        );
+        pushNextSteps(
+          timeline,
+          graph,
+          node,
+          nextNode.workflowId,
+          nextNode.time,
+          nodeQueue,
+          nodeSeqRef,
+          "else"
         );
       } else {
-        logEntry(timeline, nextNode.time, node, "If/Else had no matching branch");
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          "If/Else had no matching branch",
+          undefined,
+          { ifElseTrace }
+        );
         pushNextSteps(
           timeline,
           graph,
@@ -399,29 +1358,127 @@ export const simulateWorkflows = (
       continue;
     }
 
+    if (node.type === "split") {
+      const config = node.config as SplitConfig;
+      const paths = config.paths ?? [];
+      const pinned = options.splitPath?.trim().toLowerCase();
+      const pinnedPath = pinned
+        ? paths.find((path) => path.label.trim().toLowerCase() === pinned)
+        : undefined;
+      const roll = random();
+      const path = pinnedPath ?? pickWeighted(paths, roll);
+      if (!path) {
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          "Split had no path to take",
+          "Give at least one path a weight above 0.",
+          { level: "warning" }
+        );
+        pushNextSteps(
+          timeline,
+          graph,
+          node,
+          nextNode.workflowId,
+          nextNode.time,
+          nodeQueue,
+          nodeSeqRef
+        );
+        continue;
+      }
+      const total = paths.reduce((sum, item) => sum + Math.max(item.weight, 0), 0);
+      logEntry(
+        timeline,
+        nextNode.time,
+        nextNode.workflowId,
+        node,
+        `Split: took ${path.label}`,
+        pinnedPath
+          ? "Pinned by test case"
+          : `Rolled ${Math.round(roll * total * 100) / 100} of ${total} (${paths
+              .map((item) => `${item.label} ${item.weight}`)
+              .join(", ")})`,
+        { splitPath: { pathId: path.id, label: path.label } }
+      );
+      pushNextSteps(
+        timeline,
+        graph,
+        node,
+        nextNode.workflowId,
+        nextNode.time,
+        nodeQueue,
+        nodeSeqRef,
+        `path-${path.id}`
+      );
+      continue;
+    }
+
+    if (node.type === "drip") {
+      const dripKey = `${nextNode.workflowId}:${node.id}`;
+      const batch = dripBatches.get(dripKey);
+      dripBatches.delete(dripKey);
+      if (batch === undefined) {
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          "Drip let the contact through (no batch set)",
+          "Set contacts per batch (1 or more) and minutes between batches (above 0).",
+          { level: "warning" }
+        );
+      } else {
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Drip: released in batch ${batch + 1}`,
+          undefined,
+          { dripBatch: batch + 1 }
+        );
+      }
+      pushNextSteps(
+        timeline,
+        graph,
+        node,
+        nextNode.workflowId,
+        nextNode.time,
+        nodeQueue,
+        nodeSeqRef
+      );
+      continue;
+    }
+
     switch (node.type) {
       case "sms.send": {
-        const body = String(node.config?.body ?? "");
+        const body = renderText(node.config?.body, nextNode.workflowId, node, nextNode.time);
         state.messages.push({
           channel: "sms",
           body,
+          workflowId: nextNode.workflowId,
           nodeId: node.id,
-          timestamp: nextNode.time
+          timestamp: nextNode.time,
+          sentAt: toClockIso(toClockTime(startMs, nextNode.time))
         });
-        logEntry(timeline, nextNode.time, node, "Sent SMS", body);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, "Sent SMS", body);
         break;
       }
       case "email.send": {
-        const subject = String(node.config?.subject ?? "");
-        const body = String(node.config?.body ?? "");
+        const subject = renderText(node.config?.subject, nextNode.workflowId, node, nextNode.time);
+        const body = renderText(node.config?.body, nextNode.workflowId, node, nextNode.time);
         state.messages.push({
           channel: "email",
           subject,
           body,
+          workflowId: nextNode.workflowId,
           nodeId: node.id,
-          timestamp: nextNode.time
+          timestamp: nextNode.time,
+          sentAt: toClockIso(toClockTime(startMs, nextNode.time))
         });
-        logEntry(timeline, nextNode.time, node, "Sent Email", subject);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, "Sent Email", subject);
         break;
       }
       case "tag.add": {
@@ -430,7 +1487,7 @@ export const simulateWorkflows = (
           state.tags.push(tag);
           state.tagsAdded.push(tag);
         }
-        logEntry(timeline, nextNode.time, node, `Tag added: ${tag}`);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Tag added: ${tag}`);
         if (tag) {
           eventQueue.push({
             time: nextNode.time,
@@ -440,38 +1497,116 @@ export const simulateWorkflows = (
         }
         break;
       }
+      case "tag.toggle": {
+        const tag = String(node.config?.tag ?? "");
+        if (!tag) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            "Tag toggle skipped (no tag)",
+            undefined,
+            { level: "warning" }
+          );
+          break;
+        }
+        if (state.tags.includes(tag)) {
+          state.tags = state.tags.filter((existing) => existing !== tag);
+          state.tagsRemoved.push(tag);
+          logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Tag toggled off: ${tag}`);
+          break;
+        }
+        state.tags.push(tag);
+        state.tagsAdded.push(tag);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Tag toggled on: ${tag}`);
+        eventQueue.push({
+          time: nextNode.time,
+          event: { type: "contact.tagAdded", tag },
+          seq: eventSeq++
+        });
+        break;
+      }
       case "tag.remove": {
         const tag = String(node.config?.tag ?? "");
         state.tags = state.tags.filter((existing) => existing !== tag);
         if (tag) {
           state.tagsRemoved.push(tag);
         }
-        logEntry(timeline, nextNode.time, node, `Tag removed: ${tag}`);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Tag removed: ${tag}`);
         break;
       }
       case "field.update": {
         const fieldKey = String(node.config?.fieldKey ?? "");
-        const rawValue = node.config?.value as any;
-        let value = rawValue;
-        if (typeof rawValue === "string") {
-          if (rawValue.toLowerCase() === "true") {
-            value = true;
-          } else if (rawValue.toLowerCase() === "false") {
-            value = false;
-          } else if (rawValue !== "" && !Number.isNaN(Number(rawValue))) {
-            value = Number(rawValue);
-          }
+        if (fieldKey) {
+          state.fields[fieldKey] = coerceFieldValue(node.config?.value);
+        }
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Field updated: ${fieldKey}`);
+        break;
+      }
+      case "field.increment": {
+        const fieldKey = String(node.config?.fieldKey ?? "");
+        const amount = Number(node.config?.amount ?? 1);
+        if (!fieldKey || !Number.isFinite(amount)) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            "Increase skipped (no field or amount)",
+            undefined,
+            { level: "warning" }
+          );
+          break;
+        }
+        const current = state.fields[fieldKey];
+        const isMissing = current === undefined || current === null || current === "";
+        const currentNumber = isMissing ? 0 : Number(current);
+        if (Number.isNaN(currentNumber)) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            `Increase skipped: ${fieldKey} is not a number`,
+            `${fieldKey} is "${String(current)}".`,
+            { level: "warning" }
+          );
+          break;
         }
+        state.fields[fieldKey] = currentNumber + amount;
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Field increased: ${fieldKey}`,
+          `${currentNumber} ${amount < 0 ? "-" : "+"} ${Math.abs(amount)} = ${
+            currentNumber + amount
+          }${isMissing ? " (field was empty, started at 0)" : ""}`
+        );
+        break;
+      }
+      case "field.clear": {
+        const fieldKey = String(node.config?.fieldKey ?? "");
         if (fieldKey) {
-          state.fields[fieldKey] = value ?? null;
+          state.fields[fieldKey] = null;
         }
-        logEntry(timeline, nextNode.time, node, `Field updated: ${fieldKey}`);
+        logEntry(timeline, nextNode.time, nextNode.workflowId, node, `Field cleared: ${fieldKey}`);
         break;
       }
       case "task.create": {
+        const assignee = resolveAssignee(
+          (node.config?.assignMode as AssignMode | undefined) || "user",
+          String(node.config?.assignedTo ?? "").trim(),
+          nextNode.workflowId,
+          node,
+          nextNode.time
+        );
         const task: SimulationTask = {
-          title: String(node.config?.title ?? ""),
-          assignedTo: node.config?.assignedTo as string | undefined,
+          title: renderText(node.config?.title, nextNode.workflowId, node, nextNode.time),
+          assignedTo: assignee?.name,
+          assigneeId: assignee?.id,
           dueInMinutes: node.config?.dueInMinutes as number | null,
           nodeId: node.id,
           timestamp: nextNode.time
@@ -481,14 +1616,29 @@ export const simulateWorkflows = (
         } else {
           state.tasks.push(task);
         }
-        logEntry(timeline, nextNode.time, node, `Task created: ${task.title}`);
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Task created: ${task.title}`,
+          assignee ? `Assigned to ${assignee.name} (${assignee.how})` : "Unassigned"
+        );
         break;
       }
       case "user.notify": {
+        const recipient = resolveAssignee(
+          (node.config?.assignMode as AssignMode | undefined) || "user",
+          String(node.config?.recipient ?? "").trim(),
+          nextNode.workflowId,
+          node,
+          nextNode.time
+        );
         const notification: SimulationNotification = {
           channel: node.config?.channel as "inApp" | "email" | "sms",
-          recipient: String(node.config?.recipient ?? ""),
-          message: String(node.config?.message ?? ""),
+          recipient: recipient?.name ?? "",
+          recipientId: recipient?.id,
+          message: renderText(node.config?.message, nextNode.workflowId, node, nextNode.time),
           nodeId: node.id,
           timestamp: nextNode.time
         };
@@ -497,7 +1647,111 @@ export const simulateWorkflows = (
         } else {
           state.notifications.push(notification);
         }
-        logEntry(timeline, nextNode.time, node, `Internal notification: ${notification.message}`);
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Internal notification: ${notification.message}`,
+          recipient ? `Sent to ${recipient.name} (${recipient.how})` : "No recipient"
+        );
+        break;
+      }
+      case "workflow.enroll": {
+        const targetId = String(node.config?.workflowId ?? "");
+        const target = workflows.find((workflow) => workflow.workflowId === targetId);
+        const entry = target?.graph.nodes.find((item) => item.kind === "trigger");
+        if (!target || !entry) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            `Enroll skipped: workflow ${targetId || "(none)"} not found`,
+            "Pick a workflow in this lesson that has a trigger.",
+            { level: "warning" }
+          );
+          break;
+        }
+        if (
+          enrollContact(target, nextNode.workflowId, node, nextNode.time, `${targetId}:workflow.enroll`)
+        ) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            `Enrolled in workflow ${targetId}`
+          );
+          // The target starts at its trigger, so it counts as run for coverage.
+          markExecuted(targetId, entry.id);
+          logEntry(
+            timeline,
+            nextNode.time,
+            targetId,
+            entry,
+            `Trigger fired: ${getNodeDisplayName(entry.type)}`,
+            `Added by workflow ${nextNode.workflowId}.`
+          );
+          goalContactKey = null;
+          pushNextSteps(
+            timeline,
+            target.graph,
+            entry,
+            targetId,
+            nextNode.time,
+            nodeQueue,
+            nodeSeqRef
+          );
+        }
+        break;
+      }
+      case "opportunity.update": {
+        const pipelineName = String(node.config?.pipelineName ?? "").trim();
+        const stageName = String(node.config?.stageName ?? "").trim();
+        if (!pipelineName || !stageName) {
+          logEntry(
+            timeline,
+            nextNode.time,
+            nextNode.workflowId,
+            node,
+            "Opportunity update skipped (no pipeline or stage)",
+            undefined,
+            { level: "warning" }
+          );
+          break;
+        }
+        const previous = findOpportunity(pipelineName);
+        const fromStage = previous?.stageName;
+        const stageChanged = moveOpportunity(pipelineName, stageName);
+        const opportunity = findOpportunity(pipelineName);
+        const status = String(node.config?.status ?? "");
+        if (opportunity && (status === "open" || status === "won" || status === "lost")) {
+          opportunity.status = status;
+        }
+        const value = node.config?.value;
+        if (opportunity && typeof value === "number") {
+          opportunity.value = value;
+        }
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          !previous
+            ? `Opportunity created: ${pipelineName} → ${stageName}`
+            : stageChanged
+              ? `Opportunity moved: ${fromStage} → ${stageName}`
+              : `Opportunity updated: ${stageName}`,
+          opportunity ? describeOpportunity(opportunity) : undefined
+        );
+        if (stageChanged) {
+          eventQueue.push({
+            time: nextNode.time,
+            event: { type: "opportunity.stageChanged", pipelineName, stageName },
+            seq: eventSeq++
+          });
+        }
         break;
       }
       case "webhook.send": {
@@ -509,11 +1763,23 @@ export const simulateWorkflows = (
           timestamp: nextNode.time
         };
         state.webhooks.push(webhook);
-        logEntry(timeline, nextNode.time, node, `Webhook sent: ${webhook.url}`);
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Webhook sent: ${webhook.url}`
+        );
         break;
       }
       default:
-        logEntry(timeline, nextNode.time, node, `Ran ${getNodeDisplayName(node.type)}`);
+        logEntry(
+          timeline,
+          nextNode.time,
+          nextNode.workflowId,
+          node,
+          `Ran ${getNodeDisplayName(node.type)}`
+        );
         break;
     }
 
@@ -528,13 +1794,261 @@ export const simulateWorkflows = (
     );
   }
 
+  settleTimeline();
+
+  enrolledThisRun.forEach((workflowId) => {
+    state.enrollments[workflowId] = nodeQueue.some((item) => item.workflowId === workflowId)
+      ? "active"
+      : "completed";
+  });
+
   return {
     timeline,
     executedNodeIds,
-    finalState: state
+    executedByWorkflow,
+    finalState: state,
+    startSnapshot,
+    startAt: toClockIso(startMs)
   };
+}
+
+export const simulateWorkflows = (
+  workflows: SimulationWorkflow[],
+  event: ScenarioTestCaseEvent,
+  initialState: ScenarioInitialState,
+  options: SimulationOptions = {}
+): SimulationResult => {
+  const run = simulateWorkflowSteps(workflows, event, initialState, options);
+  let next = run.next();
+  while (!next.done) {
+    next = run.next();
+  }
+  return next.value;
+};
+
+export type BatchContact = {
+  name: string;
+  event: ScenarioTestCaseEvent;
+  initialState: ScenarioInitialState;
+  atSeconds?: number;
+};
+
+export type BatchContactResult = {
+  name: string;
+  result: SimulationResult;
+};
+
+export type BatchBranchCount = {
+  workflowId: string;
+  nodeId: string;
+  nodeType: NodeType;
+  label: string;
+  contacts: number;
+  messages: number;
+};
+
+export type BatchTotals = {
+  contacts: number;
+  messagesSent: { sms: number; email: number };
+  // Contacts that left a workflow early; ending at a Stop step does not count.
+  contactsStopped: number;
+  branches: BatchBranchCount[];
+};
+
+export type BatchSimulationResult = {
+  contacts: BatchContactResult[];
+  totals: BatchTotals;
+};
+
+// Logged when a goal is met while the contact waits further up the workflow.
+const isGoalJump = (entry: SimulationLogEntry) =>
+  entry.nodeType === "goal" && entry.summary.startsWith("Goal met:");
+
+// The output handle a log entry took, for If/Else and Split entries.
+const getBranchTaken = (entry: SimulationLogEntry) => {
+  const trace = entry.ifElseTrace;
+  if (trace?.outcome === "branch" && trace.branchId) {
+    const label = trace.branches.find((branch) => branch.branchId === trace.branchId)?.label;
+    return { handle: `branch-${trace.branchId}`, label: label ?? trace.branchId };
+  }
+  if (trace?.outcome === "else") {
+    return { handle: "else", label: "Else" };
+  }
+  return entry.splitPath
+    ? { handle: `path-${entry.splitPath.pathId}`, label: entry.splitPath.label }
+    : null;
+};
+
+const listDownstreamNodeIds = (graph: WorkflowGraph, nodeId: string, sourceHandle: string) => {
+  const seen = new Set<string>();
+  const queue = getOutgoingTargets(graph, nodeId, sourceHandle);
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (!seen.has(current)) {
+      seen.add(current);
+      queue.push(...getOutgoingTargets(graph, current));
+    }
+  }
+  return seen;
+};
+
+/**
+ * Counts what the batch did as a whole. A branch counts each contact that took
+ * it once, plus the messages that contact was sent from steps after the branch.
+ * A contact is stopped when it left a workflow before its steps ran out: it was
+ * stopped on response, or a goal jumped it past the steps still pending.
+ */
+const summarizeBatch = (
+  workflows: SimulationWorkflow[],
+  contacts: BatchContactResult[]
+): BatchTotals => {
+  const branches = new Map<string, BatchBranchCount & { downstream: Set<string> }>();
+  contacts.forEach(({ result }) => {
+    const counted = new Set<string>();
+    result.timeline.forEach((entry) => {
+      const taken = getBranchTaken(entry);
+      const workflow = workflows.find((item) => item.workflowId === entry.workflowId);
+      if (!taken || !workflow) {
+        return;
+      }
+      const key = `${workflow.workflowId}:${entry.nodeId}:${taken.handle}`;
+      const branch = branches.get(key) ?? {
+        workflowId: workflow.workflowId,
+        nodeId: entry.nodeId,
+        nodeType: entry.nodeType,
+        label: taken.label,
+        contacts: 0,
+        messages: 0,
+        downstream: listDownstreamNodeIds(workflow.graph, entry.nodeId, taken.handle)
+      };
+      branches.set(key, branch);
+      if (counted.has(key)) {
+        return;
+      }
+      counted.add(key);
+      branch.contacts += 1;
+      branch.messages += result.finalState.messages.filter(
+        (message) =>
+          message.workflowId === branch.workflowId &&
+          branch.downstream.has(message.nodeId) &&
+          message.timestamp >= entry.timestamp
+      ).length;
+    });
+  });
+  const messages = contacts.flatMap(({ result }) => result.finalState.messages);
+  return {
+    contacts: contacts.length,
+    messagesSent: {
+      sms: messages.filter((message) => message.channel === "sms").length,
+      email: messages.filter((message) => message.channel === "email").length
+    },
+    contactsStopped: contacts.filter(
+      ({ result }) =>
+        result.finalState.workflowsStopped.length > 0 ||
+        result.timeline.some(isGoalJump)
+    ).length,
+    branches: Array.from(branches.values()).map(({ downstream, ...branch }) => branch)
+  };
+};
+
+/**
+ * Runs a list of contacts through the same workflows on one clock. Each contact
+ * keeps its own state and trigger event, but steps run in time order across
+ * contacts (ties go in list order), so a Drip lets them through in the order
+ * they reach it and round robin assigns them in turn.
+ */
+export const simulateBatch = (
+  workflows: SimulationWorkflow[],
+  contacts: BatchContact[],
+  options: SimulationOptions = {}
+): BatchSimulationResult => {
+  const dripLedger: DripLedger = new Map();
+  const roundRobin: RoundRobinCounter = { index: 0 };
+  const baseSeed = options.seed ?? DEFAULT_SEED;
+  const runs = contacts.map((contact, index) =>
+    simulateWorkflowSteps(workflows, contact.event, contact.initialState, {
+      ...options,
+      seed: baseSeed + index,
+      eventAtSeconds: contact.atSeconds ?? 0,
+      dripLedger,
+      roundRobin
+    })
+  );
+  const steps = runs.map((run) => run.next());
+  const findEarliest = () =>
+    steps.reduce((best, step, index) => {
+      if (step.done) {
+        return best;
+      }
+      const bestStep = steps[best];
+      return best < 0 || bestStep.done || step.value.time < bestStep.value.time ? index : best;
+    }, -1);
+  for (let index = findEarliest(); index >= 0; index = findEarliest()) {
+    steps[index] = runs[index].next();
+  }
+  const results = contacts.map((contact, index) => ({
+    name: contact.name,
+    result: steps[index].value as SimulationResult
+  }));
+  return { contacts: results, totals: summarizeBatch(workflows, results) };
+};
+
+export type SimulationRun = Generator<SimulationPause, SimulationResult, void>;
+
+export const getTestCaseOptions = (
+  testCase: ScenarioTestCase,
+  team?: ScenarioTeamMember[]
+): SimulationOptions => ({
+  injectedEvents: testCase.injectedEvents,
+  startAt: testCase.startAt,
+  timezone: testCase.timezone,
+  enrollmentHistory: testCase.enrollmentHistory,
+  seed: testCase.seed,
+  splitPath: testCase.splitPath,
+  team
+});
+
+/**
+ * Starts a resumable run of one contact. Batch test cases (`contacts`) share a
+ * clock across contacts and cannot be stepped this way; use
+ * `runSimulationTestCase` for them.
+ */
+export const startSimulationRun = (
+  workflows: SimulationWorkflow[],
+  testCase: ScenarioTestCase,
+  team?: ScenarioTeamMember[]
+): SimulationRun =>
+  simulateWorkflowSteps(
+    workflows,
+    testCase.event,
+    testCase.initialState,
+    getTestCaseOptions(testCase, team)
+  );
+
+// Breakpoints are keyed by workflow as well as node, since sibling workflows
+// can reuse node ids.
+export const toBreakpointKey = (workflowId: string, nodeId: string) => `${workflowId}:${nodeId}`;
+
+/**
+ * Advances a run until it pauses on a breakpoint node or finishes.
+ * The step it is currently paused on always runs first. `breakpoints` holds
+ * keys from `toBreakpointKey`.
+ */
+export const continueSimulationRun = (run: SimulationRun, breakpoints: Set<string>) => {
+  let next = run.next();
+  while (
+    !next.done &&
+    !breakpoints.has(toBreakpointKey(next.value.workflowId, next.value.node.id))
+  ) {
+    next = run.next();
+  }
+  return next;
 };
 
+// Expectations may name a team member by id or by name.
+const matchesPerson = (expected: string | undefined, id?: string, name?: string) =>
+  !expected || expected === id || expected.toLowerCase() === name?.toLowerCase();
+
 export const compareExpected = (
   result: SimulationResult,
   expected: ScenarioExpected
@@ -554,6 +2068,21 @@ export const compareExpected = (
         errors.push(`${expectation.channel.toUpperCase()} should include "${snippet}".`);
       }
     });
+    if (expectation.sentAt === undefined && expectation.atSeconds === undefined) {
+      return;
+    }
+    const delivered = matches.some(
+      (message) =>
+        expectation.contains.every(
+          (snippet) => message.subject?.includes(snippet) || message.body?.includes(snippet)
+        ) &&
+        (expectation.sentAt === undefined || message.sentAt.startsWith(expectation.sentAt)) &&
+        (expectation.atSeconds === undefined || message.timestamp === expectation.atSeconds)
+    );
+    if (!delivered) {
+      const when = expectation.sentAt ?? `+${expectation.atSeconds}s`;
+      errors.push(`${expectation.channel.toUpperCase()} should be sent at ${when}.`);
+    }
   });
 
   expected.tagsAdded?.forEach((tag) => {
@@ -577,24 +2106,68 @@ export const compareExpected = (
     }
   });
 
+  expected.fieldsGreaterThan?.forEach((fieldExpectation) => {
+    const current = state.fields[fieldExpectation.fieldKey];
+    const value =
+      current === undefined || current === null || current === "" ? NaN : Number(current);
+    if (Number.isNaN(value) || value <= fieldExpectation.value) {
+      errors.push(
+        `Field ${fieldExpectation.fieldKey} should be greater than ${fieldExpectation.value}.`
+      );
+    }
+  });
+
+  expected.opportunityStageIs?.forEach((opportunityExpectation) => {
+    const found = state.opportunities.some(
+      (opportunity) =>
+        (!opportunityExpectation.pipelineName ||
+          opportunity.pipelineName === opportunityExpectation.pipelineName) &&
+        opportunity.stageName === opportunityExpectation.stageName &&
+        (!opportunityExpectation.status || opportunity.status === opportunityExpectation.status)
+    );
+    if (!found) {
+      errors.push(
+        `Opportunity${
+          opportunityExpectation.pipelineName ? ` in ${opportunityExpectation.pipelineName}` : ""
+        } should be in stage ${opportunityExpectation.stageName}${
+          opportunityExpectation.status ? ` (${opportunityExpectation.status})` : ""
+        }.`
+      );
+    }
+  });
+
   expected.tasksCreated?.forEach((taskExpectation) => {
-    const found = state.tasks.some((task) =>
-      taskExpectation.contains.every((snippet) => task.title.includes(snippet))
+    const found = state.tasks.some(
+      (task) =>
+        taskExpectation.contains.every((snippet) => task.title.includes(snippet)) &&
+        matchesPerson(taskExpectation.assignedTo, task.assigneeId, task.assignedTo)
     );
     if (!found) {
-      errors.push(`Task with words: ${taskExpectation.contains.join(", ")}.`);
+      errors.push(
+        `Task with words: ${taskExpectation.contains.join(", ")}${
+          taskExpectation.assignedTo ? ` assigned to ${taskExpectation.assignedTo}` : ""
+        }.`
+      );
     }
   });
 
   expected.notifications?.forEach((notificationExpectation) => {
-    const found = state.notifications.some((notification) =>
-      notificationExpectation.contains.every((snippet) =>
-        notification.message.includes(snippet)
-      )
+    const found = state.notifications.some(
+      (notification) =>
+        notificationExpectation.contains.every((snippet) =>
+          notification.message.includes(snippet)
+        ) &&
+        matchesPerson(
+          notificationExpectation.recipient,
+          notification.recipientId,
+          notification.recipient
+        )
     );
     if (!found) {
       errors.push(
-        `Notification with words: ${notificationExpectation.contains.join(", ")}.`
+        `Notification with words: ${notificationExpectation.contains.join(", ")}${
+          notificationExpectation.recipient ? ` sent to ${notificationExpectation.recipient}` : ""
+        }.`
       );
     }
   });
@@ -634,19 +2207,151 @@ export const compareExpected = (
     }
   });
 
+  expected.workflowsStopped?.forEach((workflowId) => {
+    if (!state.workflowsStopped.includes(workflowId)) {
+      errors.push(`Workflow ${workflowId} should stop when the contact replies.`);
+    }
+  });
+
+  expected.workflowsSkipped?.forEach((workflowId) => {
+    if (!state.workflowsSkipped.includes(workflowId)) {
+      errors.push(`Workflow ${workflowId} should skip an already enrolled contact.`);
+    }
+  });
+
   return { passed: errors.length === 0, errors };
 };
 
-export const runSimulationTestCase = (
+/**
+ * Runs the test case once per synthetic contact, each with its own seed,
+ * and checks the share of contacts that took each split path.
+ */
+const compareSplitDistribution = (
   workflows: SimulationWorkflow[],
-  testCase: ScenarioTestCase
+  testCase: ScenarioTestCase,
+  expectation: NonNullable<ScenarioExpected["splitDistribution"]>,
+  team?: ScenarioTeamMember[]
 ) => {
-  const result = simulateWorkflows(
+  const errors: string[] = [];
+  const options = getTestCaseOptions(testCase, team);
+  const baseSeed = options.seed ?? DEFAULT_SEED;
+  const contacts = Math.max(1, Math.floor(expectation.contacts));
+  const counts = new Map<string, number>();
+  for (let index = 0; index < contacts; index += 1) {
+    const result = simulateWorkflows(workflows, testCase.event, testCase.initialState, {
+      ...options,
+      seed: baseSeed + index
+    });
+    const labels = new Set(
+      result.timeline.flatMap((entry) => (entry.splitPath ? [entry.splitPath.label] : []))
+    );
+    labels.forEach((label) => counts.set(label, (counts.get(label) ?? 0) + 1));
+  }
+  Object.entries(expectation.paths).forEach(([label, percent]) => {
+    const actual = ((counts.get(label) ?? 0) / contacts) * 100;
+    if (Math.abs(actual - percent) > expectation.tolerance) {
+      errors.push(
+        `Split path ${label} should get ${percent}% ± ${expectation.tolerance}% of ${contacts} contacts (got ${
+          Math.round(actual * 10) / 10
+        }%).`
+      );
+    }
+  });
+  return errors;
+};
+
+// A contact counts once it has come out of any Drip step by the given time.
+const compareContactsReleased = (
+  results: SimulationResult[],
+  expectations: NonNullable<ScenarioExpected["contactsReleased"]>
+) =>
+  expectations.flatMap((expectation) => {
+    const actual = results.filter((result) =>
+      result.timeline.some(
+        (entry) => entry.dripBatch !== undefined && entry.timestamp <= expectation.bySeconds
+      )
+    ).length;
+    return actual === expectation.count
+      ? []
+      : [
+          `${expectation.count} contact(s) should be through the Drip by +${expectation.bySeconds}s (got ${actual}).`
+        ];
+  });
+
+export type SimulationTestCaseRun = {
+  result: SimulationResult;
+  comparison: { passed: boolean; errors: string[] };
+  batch?: BatchSimulationResult;
+};
+
+export const getTestCaseRunResults = (run: SimulationTestCaseRun) =>
+  run.batch ? run.batch.contacts.map((contact) => contact.result) : [run.result];
+
+/**
+ * Checks every expectation of a test case against finished runs: `results`
+ * holds one result, or one per contact for a batch, named by `names`. Split
+ * distributions rerun the test case, so this needs the workflows too.
+ */
+export const checkTestCaseExpectations = (
+  workflows: SimulationWorkflow[],
+  testCase: ScenarioTestCase,
+  results: SimulationResult[],
+  names?: string[],
+  team?: ScenarioTeamMember[]
+): { passed: boolean; errors: string[] } => {
+  const errors = results.flatMap((result, index) =>
+    compareExpected(result, testCase.expect).errors.map((error) =>
+      names ? `${names[index]}: ${error}` : error
+    )
+  );
+  if (testCase.expect.contactsReleased) {
+    errors.push(...compareContactsReleased(results, testCase.expect.contactsReleased));
+  }
+  if (testCase.expect.splitDistribution) {
+    errors.push(
+      ...compareSplitDistribution(
+        workflows,
+        testCase,
+        testCase.expect.splitDistribution,
+        team
+      )
+    );
+  }
+  return { passed: errors.length === 0, errors };
+};
+
+/**
+ * Runs a test case and checks its expectations. A test case with `contacts`
+ * runs as a batch: `result` is the first contact, and every other expectation
+ * is checked for each contact.
+ */
+export const runSimulationTestCase = (
+  workflows: SimulationWorkflow[],
+  testCase: ScenarioTestCase,
+  team?: ScenarioTeamMember[]
+): SimulationTestCaseRun => {
+  const options = getTestCaseOptions(testCase, team);
+  const batch = testCase.contacts?.length
+    ? simulateBatch(
+        workflows,
+        testCase.contacts.map((contact) => ({
+          name: contact.name,
+          event: contact.event ?? testCase.event,
+          initialState: contact.initialState ?? testCase.initialState,
+          atSeconds: contact.atSeconds
+        })),
+        options
+      )
+    : undefined;
+  const result =
+    batch?.contacts[0].result ??
+    simulateWorkflows(workflows, testCase.event, testCase.initialState, options);
+  const comparison = checkTestCaseExpectations(
     workflows,
-    testCase.event,
-    testCase.initialState,
-    { injectedEvents: testCase.injectedEvents }
+    testCase,
+    batch ? batch.contacts.map((contact) => contact.result) : [result],
+    batch?.contacts.map((contact) => contact.name),
+    team
   );
-  const comparison = compareExpected(result, testCase.expect);
-  return { result, comparison };
+  return { result, comparison, batch };
 };
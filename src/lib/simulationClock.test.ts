@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import {
+  getQuietHoursDelay,
+  getWaitUntilDelay,
+  parseStartAt,
+  toClockIso
+} from "@/lib/simulationClock";
+
+// 2024-01-01 is a Monday.
+const at = (wallClock: string) => parseStartAt(wallClock);
+
+describe("getQuietHoursDelay", () => {
+  const overnight = { start: "21:00", end: "08:00" };
+
+  it("returns null outside the window", () => {
+    expect(getQuietHoursDelay(overnight, at("2024-01-01T12:00:00"))).toBeNull();
+    expect(getQuietHoursDelay(overnight, at("2024-01-01T08:00:00"))).toBeNull();
+  });
+
+  it("waits for a window that wraps midnight to end", () => {
+    expect(getQuietHoursDelay(overnight, at("2024-01-01T21:00:00"))).toBe(11 * 3600);
+    expect(getQuietHoursDelay(overnight, at("2024-01-01T23:30:00"))).toBe(8.5 * 3600);
+    expect(getQuietHoursDelay(overnight, at("2024-01-02T07:59:00"))).toBe(60);
+  });
+
+  it("handles a window inside one day", () => {
+    const lunch = { start: "12:00", end: "13:00" };
+    expect(getQuietHoursDelay(lunch, at("2024-01-01T12:15:00"))).toBe(45 * 60);
+    expect(getQuietHoursDelay(lunch, at("2024-01-01T13:00:00"))).toBeNull();
+  });
+
+  it("ignores a window with bad or equal times", () => {
+    const late = at("2024-01-01T23:00:00");
+    expect(getQuietHoursDelay({ start: "25:00", end: "08:00" }, late)).toBeNull();
+    expect(getQuietHoursDelay({ start: "23:00", end: "23:00" }, late)).toBeNull();
+    expect(getQuietHoursDelay(undefined, late)).toBeNull();
+  });
+});
+
+describe("getWaitUntilDelay", () => {
+  it("waits 0 when the clock is already at the time", () => {
+    expect(getWaitUntilDelay("09:00", "any", at("2024-01-01T09:00:00"))).toBe(0);
+  });
+
+  it("rolls over to the next day once the time has passed", () => {
+    expect(getWaitUntilDelay("09:00", "any", at("2024-01-01T10:00:00"))).toBe(23 * 3600);
+  });
+
+  it("skips to an allowed day", () => {
+    // Saturday 10:00 to Monday 09:00.
+    expect(getWaitUntilDelay("09:00", "weekdays", at("2024-01-06T10:00:00"))).toBe(47 * 3600);
+    // Monday 10:00 to Saturday 09:00.
+    expect(getWaitUntilDelay("09:00", "weekends", at("2024-01-01T10:00:00"))).toBe(
+      4 * 86400 + 23 * 3600
+    );
+  });
+
+  it("returns null for a time that is not valid", () => {
+    expect(getWaitUntilDelay("9am", "any", at("2024-01-01T09:00:00"))).toBeNull();
+  });
+});
+
+describe("parseStartAt", () => {
+  it("reads a start time without an offset as wall-clock time", () => {
+    expect(toClockIso(parseStartAt("2024-05-01T21:30"))).toBe("2024-05-01T21:30:00");
+  });
+
+  it("converts a start time with an offset to the contact's time zone", () => {
+    expect(toClockIso(parseStartAt("2024-05-01T12:00:00Z", "America/New_York"))).toBe(
+      "2024-05-01T08:00:00"
+    );
+  });
+
+  it("falls back to the default start", () => {
+    expect(toClockIso(parseStartAt("not a date"))).toBe("2024-01-01T09:00:00");
+  });
+});
@@ -0,0 +1,136 @@
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+
+export type QuietHours = NonNullable<WorkflowGraph["settings"]>["quietHours"];
+
+export type WaitDays = "any" | "weekdays" | "weekends";
+
+export const DEFAULT_START_AT = "2024-01-01T09:00:00";
+
+export const SECONDS_PER_DAY = 86400;
+
+const hasOffset = (value: string) => /(Z|[+-]\d{2}:?\d{2})$/i.test(value);
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Reads an instant as wall-clock time in a time zone, kept in the UTC-as-local form.
+const toWallClock = (instantMs: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit"
+  }).formatToParts(new Date(instantMs));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((item) => item.type === type)?.value ?? 0);
+  return Date.UTC(
+    part("year"),
+    part("month") - 1,
+    part("day"),
+    part("hour"),
+    part("minute"),
+    part("second")
+  );
+};
+
+// Start times are local wall-clock values ("2024-05-01T21:30"), so they are
+// parsed as UTC and read back with the UTC getters to avoid host timezone drift.
+// A start time with an offset is converted to the contact's time zone when one is set.
+export const parseStartAt = (startAt?: string, timeZone?: string) => {
+  const raw = startAt?.trim() || DEFAULT_START_AT;
+  const parsed = Date.parse(hasOffset(raw) ? raw : `${raw}Z`);
+  if (Number.isNaN(parsed)) {
+    return Date.parse(`${DEFAULT_START_AT}Z`);
+  }
+  return hasOffset(raw) && timeZone && isValidTimeZone(timeZone)
+    ? toWallClock(parsed, timeZone)
+    : parsed;
+};
+
+export const parseDateValue = (value: unknown) => {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const raw = value.trim();
+  const local = raw.includes("T") ? raw : `${raw}T00:00:00`;
+  const parsed = Date.parse(hasOffset(raw) ? raw : `${local}Z`);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+export const toClockTime = (startMs: number, seconds: number) => startMs + seconds * 1000;
+
+export const toClockIso = (clockMs: number) => new Date(clockMs).toISOString().slice(0, 19);
+
+export const formatClock = (clockMs: number) =>
+  new Date(clockMs).toISOString().slice(0, 16).replace("T", " ");
+
+export const parseTimeOfDay = (value?: string) => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value?.trim() ?? "");
+  if (!match) {
+    return null;
+  }
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) {
+    return null;
+  }
+  return hours * 3600 + minutes * 60;
+};
+
+const secondsOfDay = (clockMs: number) => {
+  const date = new Date(clockMs);
+  return date.getUTCHours() * 3600 + date.getUTCMinutes() * 60 + date.getUTCSeconds();
+};
+
+/**
+ * Returns how many seconds a send must wait for quiet hours to end,
+ * or null when the clock is outside the window. Windows may wrap midnight.
+ */
+export const getQuietHoursDelay = (quietHours: QuietHours, clockMs: number) => {
+  const start = parseTimeOfDay(quietHours?.start);
+  const end = parseTimeOfDay(quietHours?.end);
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+  const now = secondsOfDay(clockMs);
+  const inWindow = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inWindow) {
+    return null;
+  }
+  return (end - now + SECONDS_PER_DAY) % SECONDS_PER_DAY;
+};
+
+const matchesWaitDays = (days: WaitDays, clockMs: number) => {
+  const weekday = new Date(clockMs).getUTCDay();
+  const weekend = weekday === 0 || weekday === 6;
+  return days === "weekdays" ? !weekend : days === "weekends" ? weekend : true;
+};
+
+/**
+ * Returns how many seconds to wait for the next time of day on an allowed day,
+ * or null when the time is not valid. A clock already at that time waits 0.
+ */
+export const getWaitUntilDelay = (time: string, days: WaitDays, clockMs: number) => {
+  const target = parseTimeOfDay(time);
+  if (target === null) {
+    return null;
+  }
+  const dayStartMs = clockMs - secondsOfDay(clockMs) * 1000;
+  for (let offset = 0; offset <= 7; offset += 1) {
+    const candidateMs = dayStartMs + (offset * SECONDS_PER_DAY + target) * 1000;
+    if (candidateMs >= clockMs && matchesWaitDays(days, candidateMs)) {
+      return Math.round((candidateMs - clockMs) / 1000);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import type { ScenarioTestCase } from "@/lib/scenarioTypes";
+import type { WorkflowGraph } from "@/lib/workflowTypes";
+import { generateStressContacts, runStressTest } from "@/lib/stressTest";
+import { line, node, scenario } from "@/lib/testFixtures";
+
+const testCase = (name: string, fields = {}): ScenarioTestCase => ({
+  name,
+  event: { type: "contact.created" },
+  initialState: { fields },
+  expect: {}
+});
+
+const sendSms: WorkflowGraph = {
+  nodes: [
+    node("trigger", "contact.created", "trigger"),
+    node("sms", "sms.send", "action", { body: "Hi" })
+  ],
+  edges: [line("trigger", "sms")]
+};
+
+describe("generateStressContacts", () => {
+  it("changes one field or tag per contact", () => {
+    const { contacts, skipped } = generateStressContacts(
+      [scenario({ testCases: [testCase("Lead", { phone: "555" })] })],
+      [sendSms]
+    );
+    const labels = contacts.map((contact) => contact.label);
+    expect(labels).toContain("Lead: as written");
+    expect(labels).toContain("Lead: no fields or tags");
+    expect(labels).toContain("Lead: phone missing");
+    expect(labels).toContain("Lead: email blank");
+    // The test case's own value is not repeated.
+    expect(labels).not.toContain("Lead: phone = 555");
+    expect(skipped).toBe(0);
+  });
+
+  it("shares the limit across test cases and reports what was left out", () => {
+    const testCases = ["First", "Second", "Third"].map((name) => testCase(name));
+    const all = generateStressContacts([scenario({ testCases })], [sendSms]);
+    const capped = generateStressContacts([scenario({ testCases })], [sendSms], 7);
+
+    const countFor = (name: string) =>
+      capped.contacts.filter((contact) => contact.testCase.name === name).length;
+    expect(capped.contacts).toHaveLength(7);
+    expect([countFor("First"), countFor("Second"), countFor("Third")]).toEqual([3, 2, 2]);
+    expect(capped.skipped).toBe(all.contacts.length - 7);
+  });
+});
+
+describe("runStressTest", () => {
+  it("groups an SMS to a contact with no phone on its step", () => {
+    const report = runStressTest(
+      [{ workflowId: "main", graph: sendSms }],
+      [scenario({ testCases: [testCase("Lead", { phone: "555" })] })]
+    );
+    const finding = report.findings.find((item) => item.kind === "smsWithoutPhone");
+    expect(finding).toMatchObject({ level: "error", workflowId: "main", nodeId: "sms" });
+    expect(finding?.contacts).toContain("Lead: phone missing");
+    expect(finding?.contacts).not.toContain("Lead: as written");
+    expect(report.skippedCount).toBe(0);
+  });
+});
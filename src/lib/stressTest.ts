@@ -0,0 +1,366 @@
+import type { ConditionRule, GoalConfig, IfElseConfig, WorkflowGraph } from "@/lib/workflowTypes";
+import type {
+  Scenario,
+  ScenarioInitialState,
+  ScenarioTeamMember,
+  ScenarioTestCase
+} from "@/lib/scenarioTypes";
+import { flattenConditionRules } from "@/lib/conditions";
+import { getNodeDisplayName } from "@/lib/ghlTerms";
+import {
+  getTestCaseOptions,
+  simulateWorkflows,
+  type SimulationResult,
+  type SimulationWorkflow
+} from "@/lib/simulation";
+
+type FieldValue = string | number | boolean | null;
+
+export type StressContact = {
+  label: string;
+  testCase: ScenarioTestCase;
+  initialState: ScenarioInitialState;
+};
+
+export type StressFindingKind =
+  | "smsWithoutPhone"
+  | "emailWithoutEmail"
+  | "messageToDoNotContact"
+  | "blankMergeField";
+
+export type StressFinding = {
+  kind: StressFindingKind;
+  level: "error" | "warning";
+  workflowId: string;
+  nodeId: string;
+  message: string;
+  contacts: string[];
+};
+
+export type StressContactList = {
+  contacts: StressContact[];
+  // Generated contacts left out to stay under the limit.
+  skipped: number;
+};
+
+export type StressTestReport = {
+  contactCount: number;
+  skippedCount: number;
+  findings: StressFinding[];
+};
+
+type Vocabulary = {
+  tags: Set<string>;
+  fields: Map<string, FieldValue[]>;
+};
+
+export const MAX_STRESS_CONTACTS = 120;
+
+const DO_NOT_CONTACT_PATTERN = /(^|[^a-z])(dnd|do[-_ ]?not[-_ ]?contact)([^a-z]|$)/i;
+
+const MERGE_TOKEN_PATTERN = /\{\{\s*(?:contact|custom_values)\.([\w.]+)\s*\}\}/g;
+
+const hasValue = (value: unknown) =>
+  value !== undefined && value !== null && String(value).trim().length > 0;
+
+const addTag = (vocabulary: Vocabulary, tag: unknown) => {
+  if (typeof tag === "string" && tag.trim()) {
+    vocabulary.tags.add(tag.trim());
+  }
+};
+
+const addField = (vocabulary: Vocabulary, fieldKey: unknown, ...values: FieldValue[]) => {
+  if (typeof fieldKey !== "string" || !fieldKey.trim()) {
+    return;
+  }
+  const known = vocabulary.fields.get(fieldKey) ?? [];
+  values.forEach((value) => {
+    if (!known.includes(value)) {
+      known.push(value);
+    }
+  });
+  vocabulary.fields.set(fieldKey, known);
+};
+
+const addRule = (vocabulary: Vocabulary, rule: ConditionRule) => {
+  switch (rule.type) {
+    case "tagExists":
+    case "tagNotExists":
+      addTag(vocabulary, rule.tag);
+      return;
+    case "fieldExists":
+    case "isEmpty":
+    case "dateBefore":
+    case "dateAfter":
+      addField(vocabulary, rule.fieldKey);
+      return;
+    case "fieldEquals":
+    case "fieldNotEquals":
+    case "fieldContains":
+    case "fieldStartsWith": {
+      const value = rule.value;
+      const lower = typeof value === "string" ? value.toLowerCase() : value;
+      addField(vocabulary, rule.fieldKey, value, lower);
+      return;
+    }
+    case "greaterThan":
+    case "lessThan":
+      addField(vocabulary, rule.fieldKey, rule.value, rule.value - 1, rule.value + 1, 0);
+      return;
+    case "appointmentStatusIs":
+      return;
+  }
+};
+
+const addGraph = (vocabulary: Vocabulary, graph: WorkflowGraph) => {
+  graph.nodes.forEach((node) => {
+    if (node.type === "ifElse") {
+      (node.config as IfElseConfig).branches?.forEach((branch) =>
+        flattenConditionRules(branch.condition).forEach((rule) => addRule(vocabulary, rule))
+      );
+    }
+    if (node.type === "goal") {
+      const condition = (node.config as GoalConfig)?.condition;
+      if (condition) {
+        flattenConditionRules(condition).forEach((rule) => addRule(vocabulary, rule));
+      }
+    }
+    if (node.type === "tag.add" || node.type === "tag.remove" || node.type === "tag.toggle") {
+      addTag(vocabulary, node.config?.tag);
+    }
+    if (node.kind === "action") {
+      Object.values(node.config ?? {}).forEach((value) => {
+        if (typeof value === "string") {
+          Array.from(value.matchAll(MERGE_TOKEN_PATTERN)).forEach((match) =>
+            addField(vocabulary, match[1])
+          );
+        }
+      });
+    }
+  });
+};
+
+const addScenario = (vocabulary: Vocabulary, scenario: Scenario) => {
+  scenario.requirements.forEach((requirement) => {
+    if (requirement.type === "conditionUsesOperator") {
+      addTag(vocabulary, requirement.tag);
+      addField(vocabulary, requirement.fieldKey);
+    }
+    if (requirement.type === "triggerConfigEquals" && requirement.field === "tag") {
+      addTag(vocabulary, requirement.value);
+    }
+  });
+  scenario.testCases.forEach((testCase) => {
+    testCase.initialState.tags?.forEach((tag) => addTag(vocabulary, tag));
+    Object.entries(testCase.initialState.fields ?? {}).forEach(([fieldKey, value]) =>
+      addField(vocabulary, fieldKey, value)
+    );
+    addTag(vocabulary, testCase.event.tag);
+    testCase.injectedEvents?.forEach((injected) => addTag(vocabulary, injected.event.tag));
+    [...(testCase.expect.tagsAdded ?? []), ...(testCase.expect.tagsRemoved ?? [])].forEach(
+      (tag) => addTag(vocabulary, tag)
+    );
+    testCase.expect.fieldsEqual?.forEach((expectation) =>
+      addField(vocabulary, expectation.fieldKey, expectation.value)
+    );
+  });
+};
+
+const describeFieldValue = (value: FieldValue | undefined) =>
+  value === undefined
+    ? "missing"
+    : value === null
+      ? "null"
+      : value === ""
+        ? "blank"
+        : `= ${String(value)}`;
+
+/**
+ * Builds made-up contacts from every tag and field the scenarios and graphs
+ * mention. Each test case is a starting point; each contact changes one field
+ * (missing, null, blank or a known value) or flips one tag, so a surprise
+ * points at a single cause. Past the limit, contacts are taken from each test
+ * case in turn so every test case keeps its share.
+ */
+export const generateStressContacts = (
+  scenarios: Scenario[],
+  graphs: WorkflowGraph[],
+  limit = MAX_STRESS_CONTACTS
+): StressContactList => {
+  const vocabulary: Vocabulary = { tags: new Set(), fields: new Map() };
+  addField(vocabulary, "phone");
+  addField(vocabulary, "email");
+  scenarios.forEach((scenario) => addScenario(vocabulary, scenario));
+  graphs.forEach((graph) => addGraph(vocabulary, graph));
+
+  const perTestCase = scenarios
+    .flatMap((scenario) => scenario.testCases)
+    .map((testCase) => {
+      const contacts: StressContact[] = [];
+      const baseFields = testCase.initialState.fields ?? {};
+      const baseTags = testCase.initialState.tags ?? [];
+      const withState = (label: string, state: Partial<ScenarioInitialState>) =>
+        contacts.push({
+          label: `${testCase.name}: ${label}`,
+          testCase,
+          initialState: { ...testCase.initialState, ...state }
+        });
+
+      withState("as written", {});
+      withState("no fields or tags", { fields: {}, tags: [] });
+      vocabulary.fields.forEach((values, fieldKey) => {
+        [undefined, null, "", ...values].forEach((value) => {
+          if (value === baseFields[fieldKey]) {
+            return;
+          }
+          const fields = { ...baseFields };
+          if (value === undefined) {
+            delete fields[fieldKey];
+          } else {
+            fields[fieldKey] = value;
+          }
+          withState(`${fieldKey} ${describeFieldValue(value)}`, { fields });
+        });
+      });
+      vocabulary.tags.forEach((tag) => {
+        withState(
+          baseTags.includes(tag) ? `without tag ${tag}` : `with tag ${tag}`,
+          {
+            tags: baseTags.includes(tag)
+              ? baseTags.filter((item) => item !== tag)
+              : [...baseTags, tag]
+          }
+        );
+      });
+      return contacts;
+    });
+
+  const contacts: StressContact[] = [];
+  for (let round = 0; contacts.length < limit; round += 1) {
+    const picked = perTestCase.flatMap((list) => (round < list.length ? [list[round]] : []));
+    if (!picked.length) {
+      break;
+    }
+    contacts.push(...picked.slice(0, limit - contacts.length));
+  }
+  const total = perTestCase.reduce((sum, list) => sum + list.length, 0);
+  return { contacts, skipped: total - contacts.length };
+};
+
+const isDoNotContact = (
+  tags: string[],
+  fields: Record<string, FieldValue>,
+  channel: "sms" | "email"
+) =>
+  tags.some((tag) => DO_NOT_CONTACT_PATTERN.test(tag)) ||
+  Object.entries(fields).some(
+    ([fieldKey, value]) =>
+      DO_NOT_CONTACT_PATTERN.test(fieldKey) && (value === true || value === "true")
+  ) ||
+  fields[`consent_${channel}`] === false;
+
+const findSurprises = (result: SimulationResult) => {
+  const surprises: { kind: StressFindingKind; workflowId: string; nodeId: string }[] = [];
+  result.finalState.messages.forEach((message) => {
+    const snapshot =
+      result.timeline.find(
+        (entry) =>
+          entry.workflowId === message.workflowId &&
+          entry.nodeId === message.nodeId &&
+          entry.timestamp === message.timestamp &&
+          entry.level !== "warning"
+      )?.snapshot ?? result.finalState;
+    if (message.channel === "sms" && !hasValue(snapshot.fields.phone)) {
+      surprises.push({
+        kind: "smsWithoutPhone",
+        workflowId: message.workflowId,
+        nodeId: message.nodeId
+      });
+    }
+    if (message.channel === "email" && !hasValue(snapshot.fields.email)) {
+      surprises.push({
+        kind: "emailWithoutEmail",
+        workflowId: message.workflowId,
+        nodeId: message.nodeId
+      });
+    }
+    if (isDoNotContact(snapshot.tags, snapshot.fields, message.channel)) {
+      surprises.push({
+        kind: "messageToDoNotContact",
+        workflowId: message.workflowId,
+        nodeId: message.nodeId
+      });
+    }
+  });
+  result.timeline
+    .filter((entry) => entry.summary.startsWith("Merge field has no value"))
+    .forEach((entry) =>
+      surprises.push({
+        kind: "blankMergeField",
+        workflowId: entry.workflowId,
+        nodeId: entry.nodeId
+      })
+    );
+  return surprises;
+};
+
+const FINDING_TEXT: Record<StressFindingKind, { level: "error" | "warning"; text: string }> = {
+  smsWithoutPhone: { level: "error", text: "sent an SMS to a contact with no phone number" },
+  emailWithoutEmail: { level: "error", text: "sent an email to a contact with no email address" },
+  messageToDoNotContact: {
+    level: "error",
+    text: "messaged a contact marked do-not-contact or without consent"
+  },
+  blankMergeField: { level: "warning", text: "left a merge field blank" }
+};
+
+/**
+ * Runs generated contacts through the workflows and groups the surprises by
+ * step, listing which made-up contacts hit each one.
+ */
+export const runStressTest = (
+  workflows: SimulationWorkflow[],
+  scenarios: Scenario[],
+  team?: ScenarioTeamMember[]
+): StressTestReport => {
+  const { contacts, skipped } = generateStressContacts(
+    scenarios,
+    workflows.map((workflow) => workflow.graph)
+  );
+  const findings = new Map<string, StressFinding>();
+  contacts.forEach((contact) => {
+    const result = simulateWorkflows(
+      workflows,
+      contact.testCase.event,
+      contact.initialState,
+      getTestCaseOptions(contact.testCase, team)
+    );
+    findSurprises(result).forEach(({ kind, workflowId, nodeId }) => {
+      const workflow = workflows.find((item) => item.workflowId === workflowId);
+      const node = workflow?.graph.nodes.find((item) => item.id === nodeId);
+      if (!workflow || !node) {
+        return;
+      }
+      const key = `${kind}:${workflow.workflowId}:${nodeId}`;
+      const finding = findings.get(key) ?? {
+        kind,
+        level: FINDING_TEXT[kind].level,
+        workflowId: workflow.workflowId,
+        nodeId,
+        message: `${getNodeDisplayName(node.type)} ${FINDING_TEXT[kind].text}.`,
+        contacts: []
+      };
+      if (!finding.contacts.includes(contact.label)) {
+        finding.contacts.push(contact.label);
+      }
+      findings.set(key, finding);
+    });
+  });
+  return {
+    contactCount: contacts.length,
+    skippedCount: skipped,
+    findings: Array.from(findings.values()).sort(
+      (a, b) => Number(a.level === "warning") - Number(b.level === "warning")
+    )
+  };
+};
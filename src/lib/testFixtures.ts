@@ -0,0 +1,45 @@
+import type { Scenario } from "@/lib/scenarioTypes";
+import type {
+  NodeConfig,
+  NodeKind,
+  NodeType,
+  WorkflowEdge,
+  WorkflowNode
+} from "@/lib/workflowTypes";
+
+// Small builders shared by the lib tests.
+
+export const node = (
+  id: string,
+  type: NodeType,
+  kind: NodeKind,
+  config: NodeConfig = {}
+): WorkflowNode => ({
+  id,
+  type,
+  kind,
+  config,
+  position: { x: 0, y: 0 }
+});
+
+export const line = (source: string, target: string, sourceHandle?: string): WorkflowEdge => ({
+  id: `${source}-${sourceHandle ?? "out"}-${target}`,
+  source,
+  target,
+  sourceHandle
+});
+
+export const scenario = (overrides: Partial<Scenario> = {}): Scenario => ({
+  id: "test",
+  moduleId: "test",
+  title: "Test",
+  phase: 1,
+  estimatedMinutes: 5,
+  objectives: [],
+  allowedNodes: { triggers: [], actions: [], logic: [] },
+  requirements: [],
+  testCases: [],
+  teachBackPrompt: "",
+  hints: [],
+  ...overrides
+});
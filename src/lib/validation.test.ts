@@ -0,0 +1,185 @@
+import { describe, expect, it } from "vitest";
+import type { ConditionGroup, ConditionRule, NodeType, WorkflowGraph } from "@/lib/workflowTypes";
+import { enumerateWorkflowPaths } from "@/lib/pathEnumeration";
+import {
+  checkScenarioRequirements,
+  validateWorkflow,
+  type StageResult
+} from "@/lib/validation";
+import { line, node, scenario } from "@/lib/testFixtures";
+
+const goal = node("goal", "goal", "logic", {
+  condition: { anyAll: "all", rules: [{ type: "tagExists", tag: "booked" }] }
+});
+
+describe("validateWorkflow goals", () => {
+  it("accepts a goal in a workflow without a Wait step", () => {
+    // A goal can still skip sends, tags and tasks that come before it.
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("sms", "sms.send", "action", { body: "Hi" }),
+        goal,
+        node("stop", "stop", "logic")
+      ],
+      edges: [line("trigger", "sms"), line("sms", "stop"), line("goal", "stop")]
+    };
+    const stageA = validateWorkflow(graph, scenario()).stages[0];
+    expect(stageA.passed).toBe(true);
+    expect(stageA.issues.filter((issue) => issue.nodeId === "goal")).toEqual([]);
+  });
+
+  it("still reports a goal with no rules", () => {
+    const graph: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("goal", "goal", "logic", { condition: { anyAll: "all", rules: [] } }),
+        node("stop", "stop", "logic")
+      ],
+      edges: [line("trigger", "stop"), line("goal", "stop")]
+    };
+    const issues = validateWorkflow(graph, scenario()).issues;
+    expect(issues.some((issue) => issue.what === "Goal Event has no goal")).toBe(true);
+  });
+});
+
+describe("path rules", () => {
+  // Two routes: the Tagged branch sends an SMS, Else sends an email.
+  const tagged = { anyAll: "all", rules: [{ type: "tagExists", tag: "vip" }] };
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("check", "ifElse", "logic", {
+        elseEnabled: true,
+        branches: [{ id: "vip", label: "Tagged", condition: tagged }]
+      }),
+      node("sms", "sms.send", "action", { body: "Hi" }),
+      node("email", "email.send", "action", { subject: "Hi", body: "Hi" }),
+      node("stop", "stop", "logic")
+    ],
+    edges: [
+      line("trigger", "check"),
+      line("check", "sms", "branch-vip"),
+      line("check", "email", "else"),
+      line("sms", "stop"),
+      line("email", "stop")
+    ]
+  };
+  const emailPath = scenario({
+    requirements: [{ type: "pathMustInclude", nodeTypes: ["email.send", "stop"] }]
+  });
+
+  it("passes a rule met by a listed path", () => {
+    expect(checkScenarioRequirements(graph, emailPath)).toMatchObject([
+      { passed: true, inconclusive: false }
+    ]);
+  });
+
+  it("is not sure of a rule no listed path meets when the listing was cut off", () => {
+    const firstPathOnly = enumerateWorkflowPaths(graph, 1);
+    expect(checkScenarioRequirements(graph, emailPath, firstPathOnly)).toMatchObject([
+      { passed: false, inconclusive: true }
+    ]);
+    const stageC = validateWorkflow(graph, emailPath, undefined, { paths: firstPathOnly })
+      .stages[2];
+    expect(stageC.passed).toBe(true);
+    expect(stageC.issues.map((issue) => issue.level)).toEqual(["info"]);
+  });
+
+  it("fails a rule no path meets when every path was listed", () => {
+    const smsAndEmail = scenario({
+      requirements: [{ type: "pathMustInclude", nodeTypes: ["sms.send", "email.send"] }]
+    });
+    expect(checkScenarioRequirements(graph, smsAndEmail)).toMatchObject([
+      { passed: false, inconclusive: false }
+    ]);
+    expect(validateWorkflow(graph, smsAndEmail).stages[2].passed).toBe(false);
+  });
+
+  it("checks nodeOrder by following lines, whatever the path limit", () => {
+    const order = (sequence: NodeType[]) =>
+      checkScenarioRequirements(
+        graph,
+        scenario({ requirements: [{ type: "nodeOrder", sequence }] }),
+        enumerateWorkflowPaths(graph, 1)
+      );
+    expect(order(["contact.created", "email.send", "stop"])).toMatchObject([
+      { passed: true, inconclusive: false }
+    ]);
+    expect(order(["email.send", "sms.send"])).toMatchObject([
+      { passed: false, inconclusive: false }
+    ]);
+  });
+});
+
+describe("If/Else branch findings", () => {
+  const all = (...rules: ConditionRule[]): ConditionGroup => ({ anyAll: "all", rules });
+  const graph: WorkflowGraph = {
+    nodes: [
+      node("trigger", "contact.created", "trigger"),
+      node("tag", "tag.add", "action", { tag: "vip" }),
+      node("check", "ifElse", "logic", {
+        elseEnabled: true,
+        branches: [
+          { id: "typo", label: "Typo", condition: all({ type: "fieldExists", fieldKey: "phon" }) },
+          { id: "new", label: "New", condition: all({ type: "tagNotExists", tag: "vip" }) }
+        ]
+      }),
+      node("stop", "stop", "logic")
+    ],
+    edges: [
+      line("trigger", "tag"),
+      line("tag", "check"),
+      line("check", "stop", "branch-typo"),
+      line("check", "stop", "branch-new"),
+      line("check", "stop", "else")
+    ]
+  };
+  const withContact = scenario({
+    testCases: [
+      {
+        name: "Lead",
+        event: { type: "contact.created" },
+        initialState: { fields: { phone: "555" } },
+        expect: {}
+      }
+    ]
+  });
+  const branchIssues = (stage: StageResult) =>
+    stage.issues.filter((issue) => issue.nodeId === "check");
+
+  it("reports ruled-out and unset-field branches as info", () => {
+    const [, stageB, stageC] = validateWorkflow(graph, withContact).stages;
+    expect(branchIssues(stageB).map((issue) => issue.level)).toEqual(["info"]);
+    expect(branchIssues(stageC).map((issue) => issue.level)).toEqual(["info"]);
+    expect(stageB.passed).toBe(true);
+    expect(stageC.passed).toBe(true);
+  });
+
+  it("blocks Stage B on a branch whose own rules contradict", () => {
+    const mixed = all({ type: "tagExists", tag: "q" }, { type: "tagNotExists", tag: "q" });
+    const contradicting: WorkflowGraph = {
+      nodes: [
+        node("trigger", "contact.created", "trigger"),
+        node("check", "ifElse", "logic", {
+          elseEnabled: true,
+          branches: [{ id: "mixed", label: "Mixed", condition: mixed }]
+        }),
+        node("stop", "stop", "logic")
+      ],
+      edges: [
+        line("trigger", "check"),
+        line("check", "stop", "branch-mixed"),
+        line("check", "stop", "else")
+      ]
+    };
+    const stageB = validateWorkflow(contradicting, withContact).stages[1];
+    expect(branchIssues(stageB).map((issue) => issue.level)).toEqual(["warning"]);
+    expect(stageB.passed).toBe(false);
+  });
+
+  it("leaves out the unset-field check when the scenario has no test cases", () => {
+    const stageC = validateWorkflow(graph, scenario()).stages[2];
+    expect(branchIssues(stageC)).toEqual([]);
+  });
+});
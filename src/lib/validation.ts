@@ -2,18 +2,47 @@ import type {
   WorkflowGraph,
   WorkflowNode,
   IfElseConfig,
+  GoalConfig,
+  SplitConfig,
   NodeType
 } from "@/lib/workflowTypes";
 import type { Scenario, ScenarioRequirement } from "@/lib/scenarioTypes";
-import { getNodeDefinition } from "@/lib/nodeCatalog";
+import { getNodeDefinition, isFieldRequired } from "@/lib/nodeCatalog";
 import { getNodeDisplayName } from "@/lib/ghlTerms";
+import {
+  describeRule,
+  flattenConditionRules,
+  getConditionOperator,
+  isConditionGroupEmpty
+} from "@/lib/conditions";
+import { parseTimeOfDay } from "@/lib/simulationClock";
+import {
+  enumerateWorkflowPaths,
+  getPathNodeTypes,
+  MAX_WORKFLOW_PATHS,
+  type PathEnumeration,
+  type WorkflowPath
+} from "@/lib/pathEnumeration";
+import {
+  describeWorkflowLink,
+  getLoopLinks,
+  type WorkflowMap
+} from "@/lib/workflowMap";
+import {
+  analyzeIfElseBranches,
+  collectSetFieldKeys,
+  type BranchFinding
+} from "@/lib/branchAnalysis";
 
 export type ValidationStage = "A" | "B" | "C" | "D";
 
+// Info issues are shown to the learner but do not fail their stage.
+export type ValidationIssueLevel = "error" | "warning" | "info";
+
 export type ValidationIssue = {
   id: string;
   stage: ValidationStage;
-  level: "error" | "warning";
+  level: ValidationIssueLevel;
   what: string;
   why: string;
   where: string;
@@ -21,6 +50,8 @@ export type ValidationIssue = {
   nodeId?: string;
   fieldKey?: string;
   fieldLabel?: string;
+  // Another step the issue points at, such as the branch that shadows this one.
+  relatedNodeId?: string;
 };
 
 export type ValidationIssueWithContext = ValidationIssue & {
@@ -40,6 +71,17 @@ export type ValidationResult = {
   issues: ValidationIssue[];
 };
 
+export type ValidationContext = {
+  workflowId?: string;
+  workflowIds?: string[];
+  // Every workflow and scenario in the bundle, so checks can see what the others set.
+  graphs?: WorkflowGraph[];
+  scenarios?: Scenario[];
+  workflowMap?: WorkflowMap;
+  // Routes through the graph being checked, when the caller already listed them.
+  paths?: PathEnumeration;
+};
+
 export type SimulationRunner = (
   graph: WorkflowGraph,
   testCase: any
@@ -52,7 +94,7 @@ const createIssue = (
   where: string,
   next: string,
   nodeId?: string,
-  level: "error" | "warning" = "error",
+  level: ValidationIssueLevel = "error",
   fieldKey?: string,
   fieldLabel?: string
 ): ValidationIssue => ({
@@ -68,6 +110,12 @@ const createIssue = (
   fieldLabel
 });
 
+const toStageResult = (stage: ValidationStage, issues: ValidationIssue[]): StageResult => ({
+  stage,
+  passed: issues.every((issue) => issue.level === "info"),
+  issues
+});
+
 const buildAdjacency = (graph: WorkflowGraph) => {
   const outgoing = new Map<string, string[]>();
   const incoming = new Map<string, string[]>();
@@ -147,15 +195,33 @@ const describeRequirement = (requirement: ScenarioRequirement) => {
       return `Path includes ${requirement.nodeTypes.map(getNodeDisplayName).join(", ")}.`;
     case "requireStopPath":
       return "Each path ends when there are no more steps.";
+    case "conditionUsesOperator":
+      return `If/Else uses "${
+        getConditionOperator(requirement.operator)?.label ?? requirement.operator
+      }"${requirement.fieldKey ? ` on ${requirement.fieldKey}` : ""}${
+        requirement.tag ? ` for ${requirement.tag}` : ""
+      }.`;
+    case "enrollsWorkflow":
+      return `Add To Workflow enrolls the contact in ${requirement.workflowId}.`;
     default:
       return "Checklist item is missing.";
   }
 };
 
+/**
+ * Checks one checklist item. Path items look for a route that meets them;
+ * when none of the listed routes does but the listing stopped at
+ * MAX_WORKFLOW_PATHS, an unlisted route still might, so the answer is null.
+ */
 export const evaluateRequirement = (
   graph: WorkflowGraph,
-  requirement: ScenarioRequirement
-) => {
+  requirement: ScenarioRequirement,
+  paths?: PathEnumeration
+): boolean | null => {
+  const someRoute = (test: (path: WorkflowPath) => boolean) => {
+    const listing = paths ?? enumerateWorkflowPaths(graph);
+    return listing.paths.some(test) ? true : listing.truncated ? null : false;
+  };
   switch (requirement.type) {
     case "triggerIs": {
       const triggers = graph.nodes.filter((node) => node.kind === "trigger");
@@ -218,19 +284,101 @@ export const evaluateRequirement = (
       });
     }
     case "pathMustInclude": {
-      return requirement.nodeTypes.every((nodeType) =>
-        graph.nodes.some((node) => node.type === nodeType)
-      );
+      return someRoute((path) => {
+        const nodeTypes = getPathNodeTypes(path);
+        return requirement.nodeTypes.every((nodeType) => nodeTypes.includes(nodeType));
+      });
     }
     case "requireStopPath": {
-      const triggers = graph.nodes.filter((node) => node.kind === "trigger");
-      return triggers.some((trigger) => {
-        const reachable = reachableFrom(graph, trigger.id);
-        return graph.nodes.some(
-          (node) => reachable.has(node.id) && (graph.edges.filter((edge) => edge.source === node.id).length === 0)
+      return someRoute((path) => path.end !== "loop");
+    }
+    case "conditionUsesOperator": {
+      return graph.nodes
+        .filter((node) => node.type === "ifElse")
+        .some((node) =>
+          ((node.config as IfElseConfig)?.branches ?? []).some((branch) =>
+            flattenConditionRules(branch.condition).some(
+              (rule) =>
+                rule.type === requirement.operator &&
+                (!requirement.fieldKey ||
+                  ("fieldKey" in rule && rule.fieldKey === requirement.fieldKey)) &&
+                (!requirement.tag || ("tag" in rule && rule.tag === requirement.tag))
+            )
+          )
         );
-      });
     }
+    case "enrollsWorkflow":
+      return graph.nodes.some(
+        (node) =>
+          node.type === "workflow.enroll" && node.config?.workflowId === requirement.workflowId
+      );
+  }
+};
+
+const describeBranchCause = (finding: BranchFinding) => {
+  const cause = finding.cause;
+  const rule = cause?.rule ? describeRule(cause.rule) : "";
+  if (!cause?.branchLabel) {
+    return `Every route here first passes ${
+      cause ? getNodeDisplayName(cause.nodeType) : "an earlier step"
+    }${rule ? ` (${rule})` : ""}.`;
+  }
+  return cause.matched
+    ? `Every route here comes through branch "${cause.branchLabel}" on an earlier If/Else, where ${rule}.`
+    : `Contacts where ${rule} already left through branch "${cause.branchLabel}" on an earlier If/Else.`;
+};
+
+// Empty, contradictory and shadowed branches follow from the If/Else alone.
+// The other findings rest on what the rest of the workflow and the test data
+// show, so they inform without failing the check.
+const isBranchFindingCertain = (finding: BranchFinding) =>
+  finding.kind === "empty" || finding.kind === "contradiction" || finding.kind === "shadowed";
+
+const createBranchIssue = (stage: ValidationStage, finding: BranchFinding): ValidationIssue => {
+  const label = finding.branchLabel;
+  const level = isBranchFindingCertain(finding) ? "warning" : "info";
+  const issue = (what: string, why: string, where: string, next: string) => ({
+    ...createIssue(stage, what, why, where, next, finding.nodeId, level),
+    relatedNodeId: finding.cause?.nodeId !== finding.nodeId ? finding.cause?.nodeId : undefined
+  });
+  switch (finding.kind) {
+    case "empty":
+      return issue(
+        `If/Else branch "${label}" has no rules`,
+        "A branch with no rules never matches, so its steps never run.",
+        `Branch "${label}" on If/Else.`,
+        "Open Step settings and add a rule, or remove the branch."
+      );
+    case "contradiction":
+      return issue(
+        `If/Else branch "${label}" can never match`,
+        "Its rules rule each other out, so no contact meets all of them.",
+        `"${(finding.rules ?? []).map(describeRule).join('" and "')}" cannot both be true.`,
+        "Change one of the rules, or switch the branch to Any rule (OR)."
+      );
+    case "shadowed":
+      return issue(
+        `If/Else branch "${label}" is shadowed by "${finding.cause?.branchLabel ?? ""}"`,
+        "Branches are checked top to bottom and the first match wins.",
+        `Every contact that meets "${label}" already meets "${
+          finding.cause?.branchLabel ?? ""
+        }", which comes first.`,
+        `Narrow "${finding.cause?.branchLabel ?? ""}", or change the rules on "${label}".`
+      );
+    case "ruledOut":
+      return issue(
+        `If/Else branch "${label}" can never be taken`,
+        "Every route to this If/Else seems to have ruled out its rules already.",
+        describeBranchCause(finding),
+        "Check the earlier step, or remove this branch."
+      );
+    case "fieldNeverSet":
+      return issue(
+        `If/Else branch "${label}" checks ${finding.fieldKey}, which nothing sets`,
+        "No test contact has this field and no step sets it, so no test can take the branch.",
+        `Branch "${label}" reads ${finding.fieldKey}.`,
+        "Check the field name for typos, or set the field before the If/Else."
+      );
   }
 };
 
@@ -262,7 +410,12 @@ const validateStageA = (graph: WorkflowGraph): StageResult => {
 
   const { incoming } = buildAdjacency(graph);
   graph.nodes.forEach((node) => {
-    if (node.kind !== "trigger" && (incoming.get(node.id) ?? []).length === 0) {
+    // Goals can be reached by jumping, so they do not need an incoming line.
+    if (
+      node.kind !== "trigger" &&
+      node.type !== "goal" &&
+      (incoming.get(node.id) ?? []).length === 0
+    ) {
       issues.push(
         createIssue(
           "A",
@@ -320,11 +473,190 @@ const validateStageA = (graph: WorkflowGraph): StageResult => {
       }
     });
 
-  return { stage: "A", passed: issues.length === 0, issues };
+  graph.nodes
+    .filter((node) => node.type === "split")
+    .forEach((node) => {
+      ((node.config as SplitConfig)?.paths ?? []).forEach((path) => {
+        const hasEdge = graph.edges.some(
+          (edge) => edge.source === node.id && edge.sourceHandle === `path-${path.id}`
+        );
+        if (!hasEdge) {
+          issues.push(
+            createIssue(
+              "A",
+              "Unconnected split path",
+              "Contacts sent down an unconnected path just stop.",
+              `Split path "${path.label}" has no next step.`,
+              "Connect the path output to the next node.",
+              node.id,
+              "warning"
+            )
+          );
+        }
+      });
+    });
+
+  return toStageResult("A", issues);
 };
 
-const validateStageB = (graph: WorkflowGraph): StageResult => {
+const validateStageB = (
+  graph: WorkflowGraph,
+  context: ValidationContext = {},
+  branchFindings: BranchFinding[] = []
+): StageResult => {
   const issues: ValidationIssue[] = [];
+  graph.nodes
+    .filter((node) => node.type === "workflow.enroll")
+    .forEach((node) => {
+      const targetId = String(node.config?.workflowId ?? "");
+      if (!targetId) {
+        return;
+      }
+      if (targetId === context.workflowId) {
+        issues.push(
+          createIssue(
+            "B",
+            "Add To Workflow enrolls its own workflow",
+            "A workflow that adds the contact to itself loops.",
+            "Add To Workflow points at this same workflow.",
+            "Pick the workflow that should take over the contact.",
+            node.id,
+            "error",
+            "workflowId",
+            "Workflow"
+          )
+        );
+      } else if (context.workflowIds && !context.workflowIds.includes(targetId)) {
+        issues.push(
+          createIssue(
+            "B",
+            `Add To Workflow: workflow ${targetId} not found`,
+            "The contact can only be handed to a workflow in this lesson.",
+            "Add To Workflow points at a workflow that does not exist.",
+            "Pick a workflow from the list.",
+            node.id,
+            "error",
+            "workflowId",
+            "Workflow"
+          )
+        );
+      }
+    });
+  if (context.workflowMap) {
+    const map = context.workflowMap;
+    getLoopLinks(map)
+      .filter((link) => link.from === context.workflowId)
+      .forEach((link) => {
+        const loop = map.loops.find((item) =>
+          item.links.some((hop) => hop.from === link.from && hop.to === link.to)
+        );
+        if (!loop) {
+          return;
+        }
+        const route = [...loop.workflowIds, loop.workflowIds[0]].join(" -> ");
+        issues.push(
+          createIssue(
+            "B",
+            `Workflows start each other in a loop: ${route}`,
+            loop.repeats
+              ? "Re-entry is on, so the contact goes around until the test run stops it after 3 runs."
+              : "Re-entry is off, so the contact is skipped when the loop comes back.",
+            `${getNodeDisplayName(link.nodeType)} ${describeWorkflowLink(link)}, which starts workflow ${link.to}.`,
+            loop.repeats
+              ? "Remove or change this step, or turn re-entry off in one workflow of the loop."
+              : "Check the loop is intended, or remove or change this step.",
+            link.nodeId,
+            loop.repeats ? "error" : "warning"
+          )
+        );
+      });
+  }
+  graph.nodes
+    .filter((node) => node.type === "split")
+    .forEach((node) => {
+      const paths = (node.config as SplitConfig)?.paths ?? [];
+      if (paths.length < 2) {
+        issues.push(
+          createIssue(
+            "B",
+            "Split needs two paths",
+            "A split with one path sends everyone the same way.",
+            `Split has ${paths.length} path${paths.length === 1 ? "" : "s"}.`,
+            "Open Step settings and add another path.",
+            node.id
+          )
+        );
+      }
+      if (paths.some((path) => !Number.isFinite(path.weight) || path.weight <= 0)) {
+        issues.push(
+          createIssue(
+            "B",
+            "Split path has no share",
+            "A path with 0% never gets a contact.",
+            "A split path has a percentage of 0 or less.",
+            "Give every path a percentage above 0, or remove the path.",
+            node.id
+          )
+        );
+      }
+    });
+  graph.nodes
+    .filter((node) => node.type === "drip")
+    .forEach((node) => {
+      // Blank values are reported by the required-field check below.
+      const batchSize = node.config?.batchSize;
+      const intervalMinutes = node.config?.intervalMinutes;
+      if (typeof batchSize === "number" && batchSize < 1) {
+        issues.push(
+          createIssue(
+            "B",
+            "Drip batch is empty",
+            "A batch needs at least one contact, or the Drip lets everyone through at once.",
+            `Contacts per batch is ${batchSize}.`,
+            "Set contacts per batch to 1 or more.",
+            node.id,
+            "error",
+            "batchSize",
+            "Contacts per batch"
+          )
+        );
+      }
+      if (typeof intervalMinutes === "number" && intervalMinutes <= 0) {
+        issues.push(
+          createIssue(
+            "B",
+            "Drip has no time between batches",
+            "With no gap, every batch goes out at the same moment.",
+            `Minutes between batches is ${intervalMinutes}.`,
+            "Set minutes between batches above 0.",
+            node.id,
+            "error",
+            "intervalMinutes",
+            "Minutes between batches"
+          )
+        );
+      }
+    });
+  branchFindings
+    .filter((finding) => finding.kind !== "fieldNeverSet")
+    .forEach((finding) => issues.push(createBranchIssue("B", finding)));
+  graph.nodes
+    .filter((node) => node.type === "goal")
+    .forEach((node) => {
+      const condition = (node.config as GoalConfig)?.condition;
+      if (!condition || isConditionGroupEmpty(condition)) {
+        issues.push(
+          createIssue(
+            "B",
+            "Goal Event has no goal",
+            "Without a rule, the goal can never be met.",
+            "Goal Event has no rules.",
+            "Open Step settings and add a rule, like has tag status:booked.",
+            node.id
+          )
+        );
+      }
+    });
   graph.nodes.forEach((node) => {
     const definition = getNodeDefinition(node.type);
     if (!definition?.configFields?.length) {
@@ -332,7 +664,7 @@ const validateStageB = (graph: WorkflowGraph): StageResult => {
     }
     definition.configFields.forEach((field) => {
       const value = node.config?.[field.key];
-      if (field.required) {
+      if (isFieldRequired(field, node.config)) {
         if (value === undefined || value === null || (typeof value === "string" && value.trim().length === 0)) {
           issues.push(
             createIssue(
@@ -382,6 +714,21 @@ const validateStageB = (graph: WorkflowGraph): StageResult => {
             )
           );
         }
+        if (field.type === "time" && parseTimeOfDay(String(value)) === null) {
+          issues.push(
+            createIssue(
+              "B",
+              `${definition.label}: ${field.label} is not a time`,
+              "This field needs a time of day.",
+              `${definition.label} has an invalid time.`,
+              "Enter a time like 09:00.",
+              node.id,
+              "error",
+              field.key,
+              field.label
+            )
+          );
+        }
         if (field.type === "select" && field.options?.length) {
           const options = field.options.map((option) =>
             typeof option === "string" ? option : option.value
@@ -405,17 +752,36 @@ const validateStageB = (graph: WorkflowGraph): StageResult => {
       }
     });
   });
-  return { stage: "B", passed: issues.length === 0, issues };
+  return toStageResult("B", issues);
 };
 
-const validateStageC = (graph: WorkflowGraph, scenario: Scenario): StageResult => {
+const validateStageC = (
+  graph: WorkflowGraph,
+  scenario: Scenario,
+  context: ValidationContext = {},
+  branchFindings: BranchFinding[] = []
+): StageResult => {
   const issues: ValidationIssue[] = [];
   scenario.requirements.forEach((requirement) => {
-    const ok = evaluateRequirement(graph, requirement);
+    const ok = evaluateRequirement(graph, requirement, context.paths);
     if (ok) {
       return;
     }
     const requirementText = describeRequirement(requirement);
+    if (ok === null) {
+      issues.push(
+        createIssue(
+          "C",
+          `Checklist item not checked: ${requirementText}`,
+          `Only the first ${MAX_WORKFLOW_PATHS} paths are listed. None of them meets this item, but another path might.`,
+          "Checklist",
+          "Follow the paths on the canvas yourself, or use fewer branches so every path is listed.",
+          undefined,
+          "info"
+        )
+      );
+      return;
+    }
     issues.push(
       createIssue(
         "C",
@@ -426,7 +792,11 @@ const validateStageC = (graph: WorkflowGraph, scenario: Scenario): StageResult =
       )
     );
   });
-  return { stage: "C", passed: issues.length === 0, issues };
+  // Fields no test sets are about the test data, so they belong to this stage.
+  branchFindings
+    .filter((finding) => finding.kind === "fieldNeverSet")
+    .forEach((finding) => issues.push(createBranchIssue("C", finding)));
+  return toStageResult("C", issues);
 };
 
 const validateStageD = (
@@ -465,17 +835,38 @@ const validateStageD = (
       );
     }
   });
-  return { stage: "D", passed: issues.length === 0, issues };
+  return toStageResult("D", issues);
+};
+
+// One analysis serves both stages; without test cases there is no test data
+// to say which fields get set, so that check is left out.
+const findBranchFindings = (
+  graph: WorkflowGraph,
+  scenario: Scenario,
+  context: ValidationContext
+) => {
+  const scenarios = context.scenarios ?? [scenario];
+  return analyzeIfElseBranches(graph, {
+    otherGraphs: context.graphs?.filter((other) => other !== graph),
+    paths: context.paths,
+    setFieldKeys: scenarios.some((item) => item.testCases.length > 0)
+      ? collectSetFieldKeys(scenarios, context.graphs ?? [graph])
+      : undefined
+  });
 };
 
 export const validateWorkflow = (
   graph: WorkflowGraph,
   scenario: Scenario,
-  runSimulation?: SimulationRunner
+  runSimulation?: SimulationRunner,
+  context?: ValidationContext
 ): ValidationResult => {
+  // Routes are listed once and shared by the checks that need them.
+  const withPaths = { ...context, paths: context?.paths ?? enumerateWorkflowPaths(graph) };
+  const branchFindings = findBranchFindings(graph, scenario, withPaths);
   const stageA = validateStageA(graph);
-  const stageB = validateStageB(graph);
-  const stageC = validateStageC(graph, scenario);
+  const stageB = validateStageB(graph, withPaths, branchFindings);
+  const stageC = validateStageC(graph, scenario, withPaths, branchFindings);
   const stageD = validateStageD(graph, scenario, runSimulation);
   const stages = [stageA, stageB, stageC, stageD];
   const issues = stages.flatMap((stage) => stage.issues);
@@ -486,8 +877,12 @@ export const validateWorkflow = (
   };
 };
 
-export const checkScenarioRequirements = (graph: WorkflowGraph, scenario: Scenario) =>
-  scenario.requirements.map((requirement) => ({
-    requirement,
-    passed: evaluateRequirement(graph, requirement)
-  }));
+export const checkScenarioRequirements = (
+  graph: WorkflowGraph,
+  scenario: Scenario,
+  paths = enumerateWorkflowPaths(graph)
+) =>
+  scenario.requirements.map((requirement) => {
+    const outcome = evaluateRequirement(graph, requirement, paths);
+    return { requirement, passed: outcome === true, inconclusive: outcome === null };
+  });
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { WorkflowGraph, WorkflowNode } from "@/lib/workflowTypes";
+import { buildWorkflowMap, getLoopLinks, type MapWorkflow } from "@/lib/workflowMap";
+import { node } from "@/lib/testFixtures";
+
+// A workflow started by one trigger whose steps all hang off it.
+const workflow = (
+  workflowId: string,
+  trigger: WorkflowNode,
+  steps: WorkflowNode[],
+  settings?: WorkflowGraph["settings"]
+): MapWorkflow => ({
+  workflowId,
+  graph: {
+    nodes: [trigger, ...steps],
+    edges: steps.map((step) => ({ id: `e-${step.id}`, source: trigger.id, target: step.id })),
+    settings
+  }
+});
+
+const onTag = (tag?: string) => node("trigger", "contact.tagAdded", "trigger", { tag });
+const addTag = (id: string, tag: string) => node(id, "tag.add", "action", { tag });
+
+const hops = (workflows: MapWorkflow[]) =>
+  buildWorkflowMap(workflows).links.map((link) => `${link.from}>${link.to}:${link.kind}`);
+
+describe("buildWorkflowMap", () => {
+  it("links tag steps to matching tag triggers, including triggers for any tag", () => {
+    const workflows = [
+      workflow("start", node("trigger", "contact.created", "trigger"), [addTag("tag", "hot")]),
+      workflow("hot", onTag("hot"), []),
+      workflow("cold", onTag("cold"), []),
+      workflow("any", onTag(), [])
+    ];
+    expect(hops(workflows)).toEqual(["start>hot:tagAdded", "start>any:tagAdded"]);
+    expect(buildWorkflowMap(workflows).loops).toEqual([]);
+  });
+
+  it("links opportunity moves and Add To Workflow steps", () => {
+    const workflows = [
+      workflow("sales", node("trigger", "contact.created", "trigger"), [
+        node("move", "opportunity.update", "action", { pipelineName: "Sales", stageName: "Won" }),
+        node("enroll", "workflow.enroll", "action", { workflowId: "onboard" })
+      ]),
+      workflow(
+        "won",
+        node("trigger", "opportunity.stageChanged", "trigger", { stageName: "Won" }),
+        []
+      ),
+      workflow(
+        "other",
+        node("trigger", "opportunity.stageChanged", "trigger", { pipelineName: "Support" }),
+        []
+      ),
+      workflow("onboard", node("trigger", "contact.created", "trigger"), [])
+    ];
+    expect(hops(workflows)).toEqual(["sales>won:stageChanged", "sales>onboard:enroll"]);
+  });
+
+  it("reports a loop once, from the first workflow in the bundle", () => {
+    const workflows = [
+      workflow("a", onTag("a"), [addTag("toB", "b")]),
+      workflow("b", onTag("b"), [addTag("toC", "c")]),
+      workflow("c", onTag("c"), [addTag("toA", "a"), addTag("toAagain", "a")])
+    ];
+    const map = buildWorkflowMap(workflows);
+    expect(map.loops.map((loop) => loop.workflowIds)).toEqual([["a", "b", "c"]]);
+    // Both steps that close the loop are drawn on it.
+    expect(getLoopLinks(map).map((link) => link.nodeId)).toEqual([
+      "toB",
+      "toC",
+      "toA",
+      "toAagain"
+    ]);
+  });
+
+  it("says a loop repeats only when every workflow on it allows re-entry", () => {
+    const loop = (reentryInB: boolean) =>
+      buildWorkflowMap([
+        workflow("a", onTag("a"), [addTag("toB", "b")], { allowReentry: true }),
+        workflow("b", onTag("b"), [addTag("toA", "a")], { allowReentry: reentryInB })
+      ]).loops.map((item) => item.repeats);
+    expect(loop(true)).toEqual([true]);
+    expect(loop(false)).toEqual([false]);
+  });
+
+  it("finds a workflow that starts itself", () => {
+    const map = buildWorkflowMap([workflow("self", onTag("again"), [addTag("tag", "again")])]);
+    expect(map.loops.map((loop) => loop.workflowIds)).toEqual([["self"]]);
+  });
+});
@@ -0,0 +1,172 @@
+import type { NodeType, WorkflowGraph, WorkflowNode } from "@/lib/workflowTypes";
+
+export type MapWorkflow = {
+  workflowId: string;
+  graph: WorkflowGraph;
+};
+
+export type WorkflowLinkKind = "tagAdded" | "stageChanged" | "enroll";
+
+// One step in `from` that can start `to`.
+export type WorkflowLink = {
+  from: string;
+  to: string;
+  kind: WorkflowLinkKind;
+  nodeId: string;
+  nodeType: NodeType;
+  triggerNodeId?: string;
+  // The tag or stage the step sets, when the link comes from an event.
+  value?: string;
+};
+
+export type WorkflowLoop = {
+  workflowIds: string[];
+  links: WorkflowLink[];
+  // True when every workflow in the loop allows re-entry, so the contact
+  // really goes around until the simulator's run cap stops it.
+  repeats: boolean;
+};
+
+export type WorkflowMap = {
+  workflowIds: string[];
+  links: WorkflowLink[];
+  loops: WorkflowLoop[];
+};
+
+const MAX_LOOPS = 20;
+
+const triggersOf = (graph: WorkflowGraph, type: NodeType) =>
+  graph.nodes.filter((node) => node.kind === "trigger" && node.type === type);
+
+// Mirrors the trigger filters the simulator applies to these events.
+const listLinks = (source: MapWorkflow, node: WorkflowNode, workflows: MapWorkflow[]) => {
+  const link = (
+    target: MapWorkflow,
+    kind: WorkflowLinkKind,
+    trigger?: WorkflowNode,
+    value?: string
+  ): WorkflowLink => ({
+    from: source.workflowId,
+    to: target.workflowId,
+    kind,
+    nodeId: node.id,
+    nodeType: node.type,
+    triggerNodeId: trigger?.id,
+    value
+  });
+
+  if (node.type === "tag.add" || node.type === "tag.toggle") {
+    const tag = String(node.config?.tag ?? "");
+    if (!tag) {
+      return [];
+    }
+    return workflows.flatMap((target) =>
+      triggersOf(target.graph, "contact.tagAdded")
+        .filter((trigger) => !trigger.config?.tag || trigger.config.tag === tag)
+        .map((trigger) => link(target, "tagAdded", trigger, tag))
+    );
+  }
+
+  if (node.type === "opportunity.update") {
+    const pipelineName = String(node.config?.pipelineName ?? "");
+    const stageName = String(node.config?.stageName ?? "");
+    if (!pipelineName || !stageName) {
+      return [];
+    }
+    return workflows.flatMap((target) =>
+      triggersOf(target.graph, "opportunity.stageChanged")
+        .filter((trigger) =>
+          trigger.config?.stageName
+            ? trigger.config.stageName === stageName
+            : !trigger.config?.pipelineName || trigger.config.pipelineName === pipelineName
+        )
+        .map((trigger) => link(target, "stageChanged", trigger, stageName))
+    );
+  }
+
+  if (node.type === "workflow.enroll") {
+    const target = workflows.find((item) => item.workflowId === node.config?.workflowId);
+    return target ? [link(target, "enroll")] : [];
+  }
+
+  return [];
+};
+
+/**
+ * Lists every simple loop in the link graph, each starting from the workflow
+ * that comes first in the bundle so a loop is reported once.
+ */
+const findLoops = (workflows: MapWorkflow[], links: WorkflowLink[]): WorkflowLoop[] => {
+  const order = workflows.map((workflow) => workflow.workflowId);
+  const loops: WorkflowLoop[] = [];
+
+  const walk = (start: string, current: string, trail: WorkflowLink[]) => {
+    links
+      .filter((link) => link.from === current)
+      .forEach((link) => {
+        if (loops.length >= MAX_LOOPS) {
+          return;
+        }
+        if (link.to === start) {
+          const members = [...trail, link].map((item) => item.from);
+          // Two steps feeding the same workflows make the same loop; keep the first.
+          if (loops.some((loop) => loop.workflowIds.join(">") === members.join(">"))) {
+            return;
+          }
+          loops.push({
+            workflowIds: members,
+            links: [...trail, link],
+            repeats: members.every(
+              (workflowId) =>
+                workflows.find((item) => item.workflowId === workflowId)?.graph.settings
+                  ?.allowReentry
+            )
+          });
+          return;
+        }
+        const visited = trail.some((item) => item.from === link.to);
+        if (!visited && order.indexOf(link.to) > order.indexOf(start)) {
+          walk(start, link.to, [...trail, link]);
+        }
+      });
+  };
+
+  order.forEach((workflowId) => walk(workflowId, workflowId, []));
+  return loops;
+};
+
+/**
+ * Builds which workflow feeds which without running anything: adding a tag
+ * starts every Contact Tag trigger for that tag, moving an opportunity starts
+ * matching stage triggers, and Add To Workflow starts its target.
+ * Loops in this map are found before any simulation runs.
+ */
+export const buildWorkflowMap = (workflows: MapWorkflow[]): WorkflowMap => {
+  const links = workflows.flatMap((workflow) =>
+    workflow.graph.nodes.flatMap((node) => listLinks(workflow, node, workflows))
+  );
+  return {
+    workflowIds: workflows.map((workflow) => workflow.workflowId),
+    links,
+    loops: findLoops(workflows, links)
+  };
+};
+
+/** Links that sit on a loop, including every step that closes the same hop. */
+export const getLoopLinks = (map: WorkflowMap) =>
+  map.links.filter((link) =>
+    map.loops.some((loop) =>
+      loop.links.some((item) => item.from === link.from && item.to === link.to)
+    )
+  );
+
+export const describeWorkflowLink = (link: WorkflowLink) => {
+  switch (link.kind) {
+    case "tagAdded":
+      return `adds tag ${link.value}`;
+    case "stageChanged":
+      return `moves to ${link.value}`;
+    case "enroll":
+      return "adds to workflow";
+  }
+};
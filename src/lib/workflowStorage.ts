@@ -4,12 +4,13 @@ import type { Edge, Node } from "reactflow";
 
 const STORAGE_PREFIX = "ghlwm:workflow:v1:";
 
-type StoredWorkflow = {
+export type StoredWorkflow = {
   nodes: Node<BuilderNodeData>[];
   edges: Edge[];
+  settings?: WorkflowGraph["settings"];
 };
 
-const toWorkflowGraph = (stored: StoredWorkflow): WorkflowGraph => ({
+export const toWorkflowGraph = (stored: StoredWorkflow): WorkflowGraph => ({
   nodes: stored.nodes.map((node) => ({
     id: node.id,
     type: node.data.nodeType,
@@ -23,13 +24,11 @@ const toWorkflowGraph = (stored: StoredWorkflow): WorkflowGraph => ({
     target: edge.target,
     sourceHandle: edge.sourceHandle ?? undefined,
     targetHandle: edge.targetHandle ?? undefined
-  })) as WorkflowEdge[]
+  })) as WorkflowEdge[],
+  settings: stored.settings
 });
 
-export const loadWorkflowGraph = (
-  moduleId: string,
-  workflowId?: string
-): WorkflowGraph | null => {
+const readStoredWorkflow = (moduleId: string, workflowId?: string): StoredWorkflow | null => {
   if (typeof window === "undefined") {
     return null;
   }
@@ -38,6 +37,18 @@ export const loadWorkflowGraph = (
   if (!raw) {
     return null;
   }
-  const parsed = JSON.parse(raw) as StoredWorkflow;
-  return toWorkflowGraph(parsed);
+  return JSON.parse(raw) as StoredWorkflow;
+};
+
+export const loadWorkflowGraph = (
+  moduleId: string,
+  workflowId?: string
+): WorkflowGraph | null => {
+  const stored = readStoredWorkflow(moduleId, workflowId);
+  return stored ? toWorkflowGraph(stored) : null;
+};
+
+export const loadBreakpoints = (moduleId: string, workflowId?: string): string[] => {
+  const stored = readStoredWorkflow(moduleId, workflowId);
+  return stored?.nodes.filter((node) => node.data.breakpoint).map((node) => node.id) ?? [];
 };
@@ -5,29 +5,60 @@ export type NodeType =
   | "contact.tagAdded"
   | "form.submitted"
   | "appointment.scheduled"
+  | "appointment.cancelled"
+  | "appointment.noShow"
+  | "appointment.rescheduled"
   | "opportunity.stageChanged"
   | "conversation.reply"
   | "scheduler.daily"
+  | "email.opened"
+  | "email.clicked"
   | "sms.send"
   | "email.send"
   | "tag.add"
   | "tag.remove"
+  | "tag.toggle"
   | "field.update"
+  | "field.increment"
+  | "field.clear"
   | "task.create"
   | "user.notify"
   | "webhook.send"
+  | "workflow.enroll"
+  | "opportunity.update"
   | "wait.duration"
+  | "wait.untilTime"
   | "ifElse"
+  | "goal"
+  | "split"
+  | "drip"
   | "stop";
 
+export type AppointmentStatus = "scheduled" | "rescheduled" | "cancelled" | "noShow";
+
+export type AssignMode = "user" | "owner" | "roundRobin";
+
+export type OpportunityStatus = "open" | "won" | "lost";
+
 export type ConditionRule =
   | { type: "tagExists"; tag: string }
+  | { type: "tagNotExists"; tag: string }
   | { type: "fieldExists"; fieldKey: string }
-  | { type: "fieldEquals"; fieldKey: string; value: string | number | boolean };
+  | { type: "isEmpty"; fieldKey: string }
+  | { type: "fieldEquals"; fieldKey: string; value: string | number | boolean }
+  | { type: "fieldNotEquals"; fieldKey: string; value: string | number | boolean }
+  | { type: "fieldContains"; fieldKey: string; value: string }
+  | { type: "fieldStartsWith"; fieldKey: string; value: string }
+  | { type: "greaterThan"; fieldKey: string; value: number }
+  | { type: "lessThan"; fieldKey: string; value: number }
+  | { type: "dateBefore"; fieldKey: string; daysAgo: number }
+  | { type: "dateAfter"; fieldKey: string; daysAgo: number }
+  | { type: "appointmentStatusIs"; status: AppointmentStatus };
 
 export type ConditionGroup = {
   anyAll: "all" | "any";
   rules: ConditionRule[];
+  groups?: ConditionGroup[];
 };
 
 export type IfElseBranch = {
@@ -41,6 +72,20 @@ export type IfElseConfig = {
   elseEnabled: boolean;
 };
 
+export type SplitPath = {
+  id: string;
+  label: string;
+  weight: number;
+};
+
+export type SplitConfig = {
+  paths: SplitPath[];
+};
+
+export type GoalConfig = {
+  condition: ConditionGroup;
+};
+
 export type NodeConfig = {
   [key: string]: unknown;
 };